@@ -2,24 +2,36 @@
 import React, { useState, useEffect } from 'react';
 import Dashboard from './components/Dashboard';
 import Auth from './components/Auth';
-import { User, Task, ImportantPoint } from './types';
+import { User, Workspace, SyncSnapshot } from './types';
 import { apiService } from './services/apiService';
+import { syncQueue } from './services/syncQueue';
+import { guestService } from './services/guestService';
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   // Fixed: Define specific types for initialData instead of using any[]
-  const [initialData, setInitialData] = useState<{ tasks: Task[]; team: string[]; categories: string[]; points: ImportantPoint[]; modules: string[] } | undefined>();
+  const [initialData, setInitialData] = useState<Workspace | undefined>();
+  const [sync, setSync] = useState<SyncSnapshot>(syncQueue.getSnapshot());
+  const [upgrading, setUpgrading] = useState(false);
 
   useEffect(() => {
     const checkAuth = async () => {
       try {
         const currentUser = await apiService.getCurrentUser();
         if (currentUser) {
-          const workspace = await apiService.fetchWorkspace(currentUser.id);
+          try {
+            // Fixed: Remove unnecessary 'as any' cast as fetchWorkspace returns correct types
+            const workspace = await apiService.fetchWorkspace(currentUser.id);
+            await guestService.migratePendingUpgrade(currentUser, workspace);
+            setInitialData(workspace);
+          } catch (e) {
+            // Offline start: the Dashboard falls back to the local store.
+            console.warn('Workspace fetch failed, using local copy', e);
+          }
           setUser(currentUser);
-          // Fixed: Remove unnecessary 'as any' cast as fetchWorkspace returns correct types
-          setInitialData(workspace);
+        } else {
+          setUser(guestService.getActiveGuest());
         }
       } catch (e) {
         console.error('Session error', e);
@@ -30,13 +42,29 @@ const App: React.FC = () => {
     checkAuth();
   }, []);
 
-  const handleLogin = (newUser: User, data?: any) => {
+  useEffect(() => syncQueue.subscribe(setSync), []);
+
+  useEffect(() => {
+    if (!user || user.isGuest) return;
+    syncQueue.activate(user.id);
+    return () => syncQueue.deactivate();
+  }, [user?.id, user?.isGuest]);
+
+  const handleLogin = async (newUser: User, data?: Workspace) => {
+    if (!newUser.isGuest) {
+      guestService.endSession();
+      if (data) {
+        await guestService.migratePendingUpgrade(newUser, data).catch(e => console.error('Guest migration failed', e));
+      }
+    }
+    setUpgrading(false);
     setUser(newUser);
     setInitialData(data);
   };
 
   const handleLogout = async () => {
-    await apiService.signOut();
+    if (user?.isGuest) guestService.endSession();
+    else await apiService.signOut();
     setUser(null);
     setInitialData(undefined);
   };
@@ -52,10 +80,19 @@ const App: React.FC = () => {
     );
   }
 
-  if (!user) {
-    return <Auth onLogin={handleLogin} />;
+  if (!user || upgrading) {
+    return <Auth onLogin={handleLogin} guestUpgrade={upgrading} onCancel={upgrading ? () => setUpgrading(false) : undefined} />;
   }
 
+  const pendingLabel = `${sync.pending} Pending Change${sync.pending === 1 ? '' : 's'}`;
+  const syncBadge = sync.state === 'offline'
+    ? { className: 'bg-slate-100 border-slate-200 text-slate-500', dot: 'bg-slate-400', label: `Offline · ${pendingLabel}` }
+    : sync.state === 'error'
+      ? { className: 'bg-red-50 border-red-100 text-red-600', dot: 'bg-red-500', label: `Sync Retrying · ${pendingLabel}` }
+      : sync.pending > 0
+        ? { className: 'bg-amber-50 border-amber-100 text-amber-600', dot: 'bg-amber-500 animate-pulse', label: pendingLabel }
+        : { className: 'bg-emerald-50 border-emerald-100 text-emerald-600', dot: 'bg-emerald-500', label: 'All Changes Synced' };
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
       <nav className="bg-white border-b border-slate-200 sticky top-0 z-50 shadow-sm">
@@ -65,13 +102,29 @@ const App: React.FC = () => {
               <i className="fa-solid fa-server"></i>
             </div>
             <span className="font-bold text-slate-800 tracking-tight">WorkSync <span className="text-indigo-600">Pro</span></span>
-            <div className="hidden sm:flex items-center gap-1.5 ml-4 px-2 py-1 bg-emerald-50 border border-emerald-100 rounded-full">
-              <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></div>
-              <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">SQL Server Live</span>
-            </div>
+            {user.isGuest && (
+              <div className="hidden sm:flex items-center gap-1.5 ml-4 px-2 py-1 border rounded-full bg-slate-100 border-slate-200 text-slate-500">
+                <i className="fa-solid fa-laptop text-[9px]"></i>
+                <span className="text-[10px] font-black uppercase tracking-widest">Guest · Saved On This Device</span>
+              </div>
+            )}
+            {!user.isGuest && (
+              <div className={`hidden sm:flex items-center gap-1.5 ml-4 px-2 py-1 border rounded-full ${syncBadge.className}`}>
+                <div className={`w-1.5 h-1.5 rounded-full ${syncBadge.dot}`}></div>
+                <span className="text-[10px] font-black uppercase tracking-widest">{syncBadge.label}</span>
+              </div>
+            )}
           </div>
           
           <div className="flex items-center gap-4">
+            {user.isGuest && (
+              <button
+                onClick={() => setUpgrading(true)}
+                className="px-4 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-indigo-100 transition-all active:scale-95"
+              >
+                <i className="fa-solid fa-cloud-arrow-up mr-2"></i>Create Account
+              </button>
+            )}
             <div className="hidden md:flex flex-col items-end leading-tight">
               <span className="text-sm font-bold text-slate-800">{user.name}</span>
               <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{user.email}</span>
@@ -91,7 +144,7 @@ const App: React.FC = () => {
                   className="w-full text-left p-3 text-xs font-bold text-red-500 hover:bg-red-50 rounded-lg flex items-center gap-2 transition-colors"
                 >
                   <i className="fa-solid fa-right-from-bracket"></i>
-                  Sign Out
+                  {user.isGuest ? 'Leave Guest Mode' : 'Sign Out'}
                 </button>
               </div>
             </div>
@@ -0,0 +1,95 @@
+
+import React from 'react';
+import { LlmSettings, LlmProviderId } from '../types';
+import { LLM_PROVIDERS, getProvider } from '../services/llmProviders';
+
+interface AiProviderSettingsProps {
+  settings: LlmSettings;
+  onChange: (settings: LlmSettings) => void;
+}
+
+const AiProviderSettings: React.FC<AiProviderSettingsProps> = ({ settings, onChange }) => {
+  const active = getProvider(settings);
+
+  // Each provider names its models differently, so switching resets the model to that provider's default.
+  const selectProvider = (id: LlmProviderId) => {
+    const provider = LLM_PROVIDERS.find(p => p.id === id)!;
+    onChange({ ...settings, provider: id, model: provider.defaultModel });
+  };
+
+  return (
+    <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+      <h2 className="text-xl font-black text-slate-800 mb-2 flex items-center gap-3">
+        <i className="fa-solid fa-microchip text-indigo-600"></i> AI Provider
+      </h2>
+      <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-8 ml-9">Which model writes your reports. Stored on this device only.</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-8">
+        {LLM_PROVIDERS.map(p => (
+          <button
+            key={p.id}
+            type="button"
+            onClick={() => selectProvider(p.id)}
+            className={`text-left p-5 rounded-2xl border transition-all ${settings.provider === p.id ? 'bg-slate-900 text-white border-slate-900 shadow-lg' : 'bg-slate-50 text-slate-500 border-slate-100 hover:border-slate-200'}`}
+          >
+            <span className="block text-[10px] font-black uppercase tracking-widest mb-2">{p.label}</span>
+            <span className={`block text-[11px] font-medium leading-snug ${settings.provider === p.id ? 'text-slate-300' : 'text-slate-400'}`}>{p.description}</span>
+          </button>
+        ))}
+      </div>
+
+      {active.usesModel && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {settings.provider === 'openai' && (
+            <>
+              <div className="space-y-2">
+                <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Endpoint</label>
+                <input
+                  type="url"
+                  value={settings.endpoint}
+                  onChange={(e) => onChange({ ...settings, endpoint: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full bg-slate-50 border border-slate-200 px-5 py-3 rounded-2xl outline-none font-bold text-sm focus:ring-2 focus:ring-indigo-500 transition-all"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">API Key (optional)</label>
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+                  placeholder="Not needed for most local servers"
+                  className="w-full bg-slate-50 border border-slate-200 px-5 py-3 rounded-2xl outline-none font-bold text-sm focus:ring-2 focus:ring-indigo-500 transition-all"
+                />
+              </div>
+            </>
+          )}
+          <div className="space-y-2">
+            <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Model</label>
+            <input
+              type="text"
+              value={settings.model}
+              onChange={(e) => onChange({ ...settings, model: e.target.value })}
+              placeholder={active.defaultModel}
+              className="w-full bg-slate-50 border border-slate-200 px-5 py-3 rounded-2xl outline-none font-bold text-sm focus:ring-2 focus:ring-indigo-500 transition-all"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Temperature · {settings.temperature.toFixed(1)}</label>
+            <input
+              type="range"
+              min={0}
+              max={1.5}
+              step={0.1}
+              value={settings.temperature}
+              onChange={(e) => onChange({ ...settings, temperature: parseFloat(e.target.value) })}
+              className="w-full accent-indigo-600 mt-3"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiProviderSettings;
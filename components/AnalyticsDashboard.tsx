@@ -0,0 +1,199 @@
+
+import React, { useState, useMemo } from 'react';
+import {
+  ResponsiveContainer, BarChart, Bar, LineChart, Line, PieChart, Pie, Cell,
+  XAxis, YAxis, CartesianGrid, Tooltip, Legend
+} from 'recharts';
+import { Task, TaskPriority, DateRange } from '../types';
+import { formatAppDate } from '../services/dateFormat';
+import { buildAnalytics, analyticsRange, ANALYTICS_PRESETS, AnalyticsPreset } from '../services/analyticsService';
+
+interface AnalyticsDashboardProps {
+  tasks: Task[];
+}
+
+const CATEGORY_COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444', '#0ea5e9', '#8b5cf6', '#ec4899', '#64748b'];
+const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  [TaskPriority.HIGH]: '#ef4444',
+  [TaskPriority.MEDIUM]: '#f59e0b',
+  [TaskPriority.LOW]: '#94a3b8'
+};
+const HEAT_LEVELS = ['bg-slate-100', 'bg-emerald-200', 'bg-emerald-400', 'bg-emerald-600', 'bg-emerald-800'];
+const WEEKDAY_ROWS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+const AXIS_TICK = { fontSize: 10, fontWeight: 800, fill: '#94a3b8' };
+
+const shortDate = (date: string) => formatAppDate(date).slice(0, 6);
+
+const Card: React.FC<{ title: string; icon: string; className?: string; children: React.ReactNode }> = ({ title, icon, className = '', children }) => (
+  <div className={`bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm ${className}`}>
+    <h3 className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-6 flex items-center gap-2">
+      <i className={`fa-solid ${icon}`}></i> {title}
+    </h3>
+    {children}
+  </div>
+);
+
+const Empty = () => (
+  <div className="h-64 flex items-center justify-center text-slate-300 font-black uppercase text-[10px] tracking-[0.3em]">No data in this range</div>
+);
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ tasks }) => {
+  const todayStr = new Date().toISOString().split('T')[0];
+  const [preset, setPreset] = useState<AnalyticsPreset>('last-30');
+  const [range, setRange] = useState<DateRange>(() => analyticsRange('last-30', todayStr));
+
+  const analytics = useMemo(() => buildAnalytics(tasks, range), [tasks, range]);
+  const { totals } = analytics;
+  const trend = analytics.trend.map(p => ({ ...p, name: shortDate(p.label) }));
+  const maxHeat = Math.max(0, ...analytics.heatmap.flat().map(d => d.hours));
+  const heatLevel = (hours: number) => hours <= 0 || maxHeat === 0 ? 0 : Math.min(4, Math.ceil(hours / maxHeat * 4));
+
+  const selectPreset = (id: AnalyticsPreset) => {
+    setPreset(id);
+    if (id !== 'custom') setRange(analyticsRange(id, todayStr));
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center gap-3">
+        {ANALYTICS_PRESETS.map(p => (
+          <button
+            key={p.id}
+            onClick={() => selectPreset(p.id)}
+            className={`px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border ${preset === p.id ? 'bg-indigo-600 text-white border-indigo-600 shadow-lg shadow-indigo-100' : 'bg-white text-slate-400 border-slate-200 hover:text-slate-600'}`}
+          >
+            {p.label}
+          </button>
+        ))}
+        {preset === 'custom' && (
+          <div className="flex items-center gap-3">
+            <input type="date" value={range.from} max={range.to} onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })} className="px-4 py-2 rounded-xl bg-white border border-slate-200 outline-none text-xs font-black text-slate-600" />
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">to</span>
+            <input type="date" value={range.to} min={range.from} onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })} className="px-4 py-2 rounded-xl bg-white border border-slate-200 outline-none text-xs font-black text-slate-600" />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        <div className="bg-slate-900 p-8 rounded-[2.5rem] shadow-sm">
+          <span className="text-[10px] font-black uppercase text-indigo-400 tracking-widest block mb-3">Logged Hours</span>
+          <span className="text-4xl font-black text-white tracking-tighter">{totals.hours}h</span>
+        </div>
+        <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm">
+          <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest block mb-3">Completed</span>
+          <span className="text-4xl font-black text-slate-800 tracking-tighter">{totals.done}<span className="text-lg text-slate-300"> / {totals.planned} planned</span></span>
+        </div>
+        <div className="bg-indigo-600 p-8 rounded-[2.5rem] shadow-2xl shadow-indigo-100">
+          <span className="text-[10px] font-black uppercase text-indigo-200 tracking-widest block mb-3">Completion Rate</span>
+          <span className="text-4xl font-black text-white tracking-tighter">{totals.completionRate ?? '–'}{totals.completionRate !== null && '%'}</span>
+        </div>
+        <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm">
+          <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest block mb-3">Active Days</span>
+          <span className="text-4xl font-black text-slate-800 tracking-tighter">{totals.activeDays}</span>
+        </div>
+      </div>
+
+      <Card title={`Hours per ${analytics.bucket}`} icon="fa-chart-column">
+        {totals.hours === 0 ? <Empty /> : (
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" tick={AXIS_TICK} axisLine={false} tickLine={false} />
+              <YAxis tick={AXIS_TICK} axisLine={false} tickLine={false} width={30} />
+              <Tooltip cursor={{ fill: '#f8fafc' }} formatter={(value: any) => [`${value}h`, 'Hours']} />
+              <Bar dataKey="hours" fill="#4f46e5" radius={[6, 6, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <Card title="Category Breakdown" icon="fa-chart-pie">
+          {analytics.categories.length === 0 ? <Empty /> : (
+            <ResponsiveContainer width="100%" height={260}>
+              <PieChart>
+                <Pie data={analytics.categories} dataKey="hours" nameKey="category" innerRadius={55} outerRadius={95} paddingAngle={2}>
+                  {analytics.categories.map((c, i) => <Cell key={c.category} fill={CATEGORY_COLORS[i % CATEGORY_COLORS.length]} />)}
+                </Pie>
+                <Tooltip formatter={(value: any, name: any) => [`${value}h`, name]} />
+                <Legend iconType="circle" wrapperStyle={{ fontSize: 10, fontWeight: 800 }} />
+              </PieChart>
+            </ResponsiveContainer>
+          )}
+        </Card>
+
+        <Card title="Priority Mix" icon="fa-signal">
+          {totals.planned === 0 ? <Empty /> : (
+            <ResponsiveContainer width="100%" height={260}>
+              <PieChart>
+                <Pie data={analytics.priorities.filter(p => p.count > 0)} dataKey="count" nameKey="priority" outerRadius={95}>
+                  {analytics.priorities.filter(p => p.count > 0).map(p => <Cell key={p.priority} fill={PRIORITY_COLORS[p.priority]} />)}
+                </Pie>
+                <Tooltip formatter={(value: any, name: any) => [`${value} task(s)`, name]} />
+                <Legend iconType="circle" wrapperStyle={{ fontSize: 10, fontWeight: 800 }} />
+              </PieChart>
+            </ResponsiveContainer>
+          )}
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <Card title="Completion Rate Trend" icon="fa-chart-line">
+          {totals.planned === 0 ? <Empty /> : (
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="name" tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                <YAxis domain={[0, 100]} tick={AXIS_TICK} axisLine={false} tickLine={false} width={30} unit="%" />
+                <Tooltip formatter={(value: any) => [`${value}%`, 'Completed']} />
+                <Line type="monotone" dataKey="completionRate" stroke="#10b981" strokeWidth={3} dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </Card>
+
+        <Card title="Planned vs Done" icon="fa-list-check">
+          {totals.planned === 0 && totals.done === 0 ? <Empty /> : (
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="name" tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                <YAxis allowDecimals={false} tick={AXIS_TICK} axisLine={false} tickLine={false} width={30} />
+                <Tooltip cursor={{ fill: '#f8fafc' }} />
+                <Legend iconType="circle" wrapperStyle={{ fontSize: 10, fontWeight: 800 }} />
+                <Bar dataKey="planned" name="Planned" fill="#c7d2fe" radius={[6, 6, 0, 0]} />
+                <Bar dataKey="done" name="Done" fill="#4f46e5" radius={[6, 6, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </Card>
+      </div>
+
+      <Card title="Activity" icon="fa-table-cells">
+        <div className="flex gap-1 overflow-x-auto pb-2">
+          <div className="flex flex-col gap-1 mr-2">
+            {WEEKDAY_ROWS.map((label, i) => (
+              <span key={i} className="h-3.5 text-[8px] font-black uppercase text-slate-300 leading-[14px]">{label}</span>
+            ))}
+          </div>
+          {analytics.heatmap.map(week => (
+            <div key={week[0].date} className="flex flex-col gap-1">
+              {week.map(day => (
+                <div
+                  key={day.date}
+                  title={day.inRange ? `${formatAppDate(day.date)}: ${day.hours}h, ${day.done} done` : undefined}
+                  className={`w-3.5 h-3.5 rounded-[3px] ${day.inRange ? HEAT_LEVELS[heatLevel(day.hours)] : 'bg-transparent'}`}
+                ></div>
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center justify-end gap-1 mt-4 text-[8px] font-black uppercase tracking-widest text-slate-300">
+          Less {HEAT_LEVELS.map(level => <span key={level} className={`w-3 h-3 rounded-[3px] ${level}`}></span>)} More
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -1,14 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
-import { User } from '../types';
+import { User, Workspace } from '../types';
 import { apiService } from '../services/apiService';
+import { guestService } from '../services/guestService';
 
 interface AuthProps {
-  onLogin: (user: User, initialData?: { tasks: any[]; team: string[] }) => void;
+  onLogin: (user: User, initialData?: Workspace) => void;
+  guestUpgrade?: boolean; // Opened from guest mode: the guest workspace moves into the account used here
+  onCancel?: () => void;
 }
 
-const Auth: React.FC<AuthProps> = ({ onLogin }) => {
-  const [isLogin, setIsLogin] = useState(true);
+const Auth: React.FC<AuthProps> = ({ onLogin, guestUpgrade = false, onCancel }) => {
+  const [isLogin, setIsLogin] = useState(!guestUpgrade);
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -48,9 +51,10 @@ const Auth: React.FC<AuthProps> = ({ onLogin }) => {
     setLoading(true);
 
     try {
+      if (guestUpgrade) guestService.markPendingUpgrade(email);
       if (isLogin) {
-        const data = await apiService.login(email, password);
-        onLogin(data.user, { tasks: data.tasks, team: data.team });
+        const { user, ...workspace } = await apiService.login(email, password);
+        onLogin(user, workspace);
       } else {
         if (!name.trim()) throw new Error('Full Name is required');
         const color = avatarColors[Math.floor(Math.random() * avatarColors.length)];
@@ -118,6 +122,13 @@ const Auth: React.FC<AuthProps> = ({ onLogin }) => {
             <p className="text-slate-400 font-medium text-[10px] uppercase tracking-widest mt-1">Enterprise SQL Central Server</p>
           </div>
 
+          {guestUpgrade && (
+            <div className="p-4 mb-6 text-xs font-bold rounded-xl border bg-indigo-50 text-indigo-600 border-indigo-100 flex items-start gap-3">
+              <i className="fa-solid fa-right-left mt-0.5"></i>
+              <span>Your guest tasks, knowledge points, team, categories and modules will move into this account the first time you sign in.</span>
+            </div>
+          )}
+
           <div className="flex bg-slate-100 p-1.5 rounded-2xl mb-8">
             <button 
               type="button"
@@ -206,6 +217,24 @@ const Auth: React.FC<AuthProps> = ({ onLogin }) => {
             </button>
           </form>
 
+          {!guestUpgrade ? (
+            <button
+              type="button"
+              onClick={() => onLogin(guestService.startSession())}
+              className="w-full mt-4 py-3.5 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 border border-dashed border-slate-200 hover:border-indigo-200 rounded-2xl transition-all"
+            >
+              <i className="fa-solid fa-user-secret mr-2"></i>Try without an account
+            </button>
+          ) : onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="w-full mt-4 py-3.5 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600 transition-all"
+            >
+              Back to Guest Workspace
+            </button>
+          )}
+
           <div className="mt-10 flex flex-col items-center gap-4 pt-10 border-t border-slate-50">
             <div className="text-center">
               <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest leading-relaxed mb-3">
@@ -0,0 +1,135 @@
+
+import React, { useState, useMemo, useRef } from 'react';
+import { Workspace } from '../types';
+import { exportBackup, parseBackup, planImport, BackupFile, ImportMode, ImportReport } from '../services/backupService';
+
+interface BackupPanelProps {
+  workspace: Workspace;
+  onImport: (workspace: Workspace) => void;
+}
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ workspace, onImport }) => {
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [lastReport, setLastReport] = useState<ImportReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const plan = useMemo(() => backup ? planImport(workspace, backup, mode) : null, [workspace, backup, mode]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    setLastReport(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+      setFileName(file.name);
+    } catch (err: any) {
+      setBackup(null);
+      setError(err.message);
+    }
+  };
+
+  const confirmImport = () => {
+    if (!plan) return;
+    if (mode === 'replace' && !confirm(`Replace the whole workspace with ${fileName}? ${plan.report.removed.tasks} task(s) and ${plan.report.removed.points} point(s) not in the file will be deleted.`)) return;
+    onImport(plan.workspace);
+    setLastReport(plan.report);
+    setBackup(null);
+  };
+
+  const report = plan?.report || lastReport;
+  const changedDuplicates = report ? report.duplicates.filter(d => !d.identical) : [];
+
+  return (
+    <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+      <h2 className="text-xl font-black text-slate-800 mb-2 flex items-center gap-3">
+        <i className="fa-solid fa-box-archive text-indigo-600"></i> Backup & Restore
+      </h2>
+      <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-8 ml-9">Tasks, knowledge points, team, categories and modules as one JSON file.</p>
+
+      <div className="flex flex-wrap gap-4">
+        <button onClick={() => exportBackup(workspace)} className="bg-slate-900 text-white px-8 py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest active:scale-95 transition-all flex items-center gap-3">
+          <i className="fa-solid fa-download"></i> Export Backup
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className="bg-slate-100 hover:bg-slate-200 text-slate-700 px-8 py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest active:scale-95 transition-all flex items-center gap-3">
+          <i className="fa-solid fa-upload"></i> Import Backup
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </div>
+
+      {error && (
+        <div className="mt-6 p-4 bg-red-50 border border-red-100 rounded-2xl text-xs font-bold text-red-600">{error}</div>
+      )}
+
+      {plan && (
+        <div className="mt-8 p-6 bg-indigo-50/40 rounded-[2rem] border border-indigo-100 animate-in slide-in-from-top-3">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <p className="text-sm font-black text-slate-800">{fileName}</p>
+              <span className="text-[9px] font-black uppercase tracking-widest text-indigo-400">
+                {backup!.workspace.tasks.length} tasks · {backup!.workspace.points.length} points · exported {new Date(backup!.exportedAt).toLocaleDateString()}
+              </span>
+            </div>
+            <div className="flex bg-white p-1 rounded-2xl border border-indigo-100">
+              {(['merge', 'replace'] as const).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${mode === m ? (m === 'replace' ? 'bg-red-500 text-white' : 'bg-indigo-600 text-white') : 'text-slate-400'}`}
+                >
+                  {m}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-6">
+            {mode === 'merge'
+              ? 'New records are added; records that already exist are kept as they are.'
+              : 'The workspace is replaced by the file; anything not in it is deleted.'}
+          </p>
+          <div className="flex gap-3">
+            <button onClick={() => setBackup(null)} className="flex-1 bg-white text-slate-500 text-[10px] font-black uppercase tracking-widest py-4 rounded-2xl border border-slate-100">Cancel</button>
+            <button onClick={confirmImport} className="flex-[3] bg-slate-900 hover:bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest py-4 rounded-2xl shadow-xl transition-all">
+              {mode === 'merge' ? 'Merge Into Workspace' : 'Replace Workspace'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-6 space-y-3 text-xs font-bold text-slate-600">
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{plan ? 'Preview' : 'Import complete'}</p>
+          <p>
+            {report.added.tasks} new task(s) and {report.added.points} new point(s)
+            {report.mode === 'replace' && `; ${report.removed.tasks} task(s) and ${report.removed.points} point(s) removed`}.
+          </p>
+          {report.duplicates.length > 0 && (
+            <p>
+              {report.duplicates.length} id(s) already exist ({report.duplicates.length - changedDuplicates.length} identical)
+              {report.mode === 'merge' ? ' and were skipped.' : ' and were overwritten by the file.'}
+            </p>
+          )}
+          {changedDuplicates.length > 0 && (
+            <ul className="max-h-40 overflow-y-auto space-y-1 pl-4 border-l-2 border-amber-100">
+              {changedDuplicates.map(d => (
+                <li key={`${d.entity}:${d.id}`} className="text-[11px]">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-amber-600 mr-2">{d.entity}</span>
+                  {d.label} <span className="text-slate-300 font-mono">{d.id}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {report.repeatedInFile.length > 0 && (
+            <p className="text-amber-600">{report.repeatedInFile.length} id(s) appeared more than once in the file; only the first copy was used.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,102 @@
+
+import React, { useState, useRef } from 'react';
+import { Task } from '../types';
+import { exportIcs, parseIcs, importIcsEvents, IcsImportResult } from '../services/icsService';
+import { downloadFile } from '../services/downloadService';
+
+interface CalendarSyncProps {
+  tasks: Task[];
+  categories: string[];
+  isGuest: boolean;
+  feedUrl: string | null;
+  feedError: string;
+  onImport: (result: IcsImportResult) => void;
+  onEnableFeed: () => void;
+  onDisableFeed: () => void;
+}
+
+const MEETING_CATEGORY = 'Meeting';
+
+const CalendarSync: React.FC<CalendarSyncProps> = ({ tasks, categories, isGuest, feedUrl, feedError, onImport, onEnableFeed, onDisableFeed }) => {
+  const todayStr = new Date().toISOString().split('T')[0];
+  const [error, setError] = useState('');
+  const [result, setResult] = useState('');
+  const [copied, setCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    setResult('');
+    try {
+      const imported = importIcsEvents(parseIcs(await file.text()), tasks, { today: todayStr, category: MEETING_CATEGORY });
+      if (imported.created.length > 0 || imported.updated.length > 0) onImport(imported);
+      setResult([
+        `${imported.created.length} meeting(s) added`,
+        imported.updated.length > 0 && `${imported.updated.length} updated`,
+        imported.unchanged > 0 && `${imported.unchanged} already up to date`,
+        imported.skipped > 0 && `${imported.skipped} past, cancelled or completed skipped`
+      ].filter(Boolean).join(' · ') + '.');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+      <h2 className="text-xl font-black text-slate-800 mb-2 flex items-center gap-3">
+        <i className="fa-solid fa-calendar-check text-sky-600"></i> Calendar Sync
+      </h2>
+      <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-8 ml-9">
+        .ics files for Outlook, Google Calendar and Apple Calendar. Imported events become {categories.includes(MEETING_CATEGORY) ? MEETING_CATEGORY : `new "${MEETING_CATEGORY}"`} tasks.
+      </p>
+
+      <div className="flex flex-wrap gap-4">
+        <button onClick={() => downloadFile(`worksync-plan-${todayStr}.ics`, exportIcs(tasks), 'text/calendar')} className="bg-slate-900 text-white px-8 py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest active:scale-95 transition-all flex items-center gap-3">
+          <i className="fa-solid fa-download"></i> Export Plan
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className="bg-slate-100 hover:bg-slate-200 text-slate-700 px-8 py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest active:scale-95 transition-all flex items-center gap-3">
+          <i className="fa-solid fa-upload"></i> Import Meetings
+        </button>
+        <input ref={fileInputRef} type="file" accept=".ics,text/calendar" onChange={handleFile} className="hidden" />
+      </div>
+
+      {error && <div className="mt-6 p-4 bg-red-50 border border-red-100 rounded-2xl text-xs font-bold text-red-600">{error}</div>}
+      {result && <div className="mt-6 p-4 bg-emerald-50 border border-emerald-100 rounded-2xl text-xs font-bold text-emerald-700">{result}</div>}
+
+      <div className="mt-8 pt-8 border-t border-slate-100">
+        <h3 className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-4">Subscription Feed</h3>
+        {isGuest ? (
+          <p className="text-xs font-bold text-slate-400">Sign in with an account to publish a feed your calendar app can subscribe to.</p>
+        ) : feedUrl ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <input readOnly value={feedUrl} onFocus={(e) => e.target.select()} className="flex-1 px-4 py-3 rounded-2xl bg-slate-50 border border-slate-100 outline-none font-mono text-xs text-slate-600" />
+              <button onClick={copyFeedUrl} className="px-6 py-3 rounded-2xl bg-sky-50 text-sky-700 text-[10px] font-black uppercase tracking-widest hover:bg-sky-100">
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+            <p className="text-[10px] font-bold text-slate-400">Updated shortly after every change to your plan. Anyone with this link can read it; turning the feed off deletes it and a new link is issued next time.</p>
+            <button onClick={onDisableFeed} className="text-[10px] font-black uppercase tracking-widest text-red-500 hover:text-red-700">Turn Feed Off</button>
+          </div>
+        ) : (
+          <button onClick={onEnableFeed} className="bg-sky-600 hover:bg-sky-700 text-white px-8 py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-xl shadow-sky-100 active:scale-95 transition-all flex items-center gap-3">
+            <i className="fa-solid fa-rss"></i> Publish Feed
+          </button>
+        )}
+        {feedError && <div className="mt-4 p-4 bg-red-50 border border-red-100 rounded-2xl text-xs font-bold text-red-600">{feedError}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarSync;
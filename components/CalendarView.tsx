@@ -0,0 +1,168 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { Task, TaskPriority, WorkCalendar } from '../types';
+import { formatAppDate } from '../services/dateFormat';
+import { buildCalendar, shiftPeriod, periodLabel, CalendarMode } from '../services/calendarService';
+import { isWorkingDay } from '../services/rolloverService';
+
+interface CalendarViewProps {
+  tasks: Task[];
+  today: string;
+  calendar: WorkCalendar;
+  onOpenDay: (date: string) => void;
+  onMoveTask: (id: string, newDate: string, reason: string) => void;
+  onRangeChange?: (from: string, to: string) => void;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const MONTH_CHIPS = 3;
+
+const PRIORITY_BORDERS: Record<TaskPriority, string> = {
+  [TaskPriority.HIGH]: 'border-l-red-500',
+  [TaskPriority.MEDIUM]: 'border-l-amber-400',
+  [TaskPriority.LOW]: 'border-l-slate-300'
+};
+
+const CalendarView: React.FC<CalendarViewProps> = ({ tasks, today, calendar, onOpenDay, onMoveTask, onRangeChange }) => {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [anchor, setAnchor] = useState(today);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overDate, setOverDate] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<{ task: Task; date: string } | null>(null);
+  const [reason, setReason] = useState('');
+
+  const weeks = useMemo(() => buildCalendar(tasks, mode, anchor), [tasks, mode, anchor]);
+  const rangeFrom = weeks[0][0].date;
+  const rangeTo = weeks[weeks.length - 1][6].date;
+
+  useEffect(() => {
+    onRangeChange?.(rangeFrom, rangeTo);
+  }, [rangeFrom, rangeTo, onRangeChange]);
+
+  const endDrag = () => {
+    setDragId(null);
+    setOverDate(null);
+  };
+
+  const drop = (e: React.DragEvent, date: string) => {
+    e.preventDefault();
+    const task = tasks.find(t => t.id === (dragId || e.dataTransfer.getData('text/plain')));
+    if (task && task.logDate !== date) {
+      setPendingMove({ task, date });
+      setReason('');
+    }
+    endDrag();
+  };
+
+  const confirmMove = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingMove) return;
+    onMoveTask(pendingMove.task.id, pendingMove.date, reason.trim());
+    setPendingMove(null);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center bg-white p-1 rounded-2xl border border-slate-200 shadow-sm">
+          <button onClick={() => setAnchor(shiftPeriod(mode, anchor, -1))} className="p-3 hover:bg-slate-50 rounded-xl text-slate-400"><i className="fa-solid fa-chevron-left"></i></button>
+          <span className="px-4 text-sm font-black text-slate-800 min-w-[200px] text-center">{periodLabel(mode, anchor)}</span>
+          <button onClick={() => setAnchor(shiftPeriod(mode, anchor, 1))} className="p-3 hover:bg-slate-50 rounded-xl text-slate-400"><i className="fa-solid fa-chevron-right"></i></button>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={() => setAnchor(today)} className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white border border-slate-200 text-slate-500 hover:text-indigo-600">Today</button>
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {(['month', 'week'] as CalendarMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-5 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${mode === m ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] border border-slate-200 shadow-sm overflow-hidden">
+        <div className="grid grid-cols-7 border-b border-slate-100">
+          {WEEKDAYS.map(day => (
+            <div key={day} className="py-4 text-center text-[10px] font-black uppercase tracking-widest text-slate-400">{day}</div>
+          ))}
+        </div>
+        {weeks.map(week => (
+          <div key={week[0].date} className="grid grid-cols-7 border-b border-slate-100 last:border-b-0">
+            {week.map(day => {
+              const isToday = day.date === today;
+              const chips = mode === 'month' ? day.planned.slice(0, MONTH_CHIPS) : day.planned;
+              return (
+                <div
+                  key={day.date}
+                  onClick={() => onOpenDay(day.date)}
+                  onDragOver={(e) => { e.preventDefault(); if (overDate !== day.date) setOverDate(day.date); }}
+                  onDrop={(e) => drop(e, day.date)}
+                  className={`p-3 border-r border-slate-100 last:border-r-0 cursor-pointer transition-all ${mode === 'month' ? 'min-h-[120px]' : 'min-h-[320px]'} ${overDate === day.date ? 'bg-indigo-50' : !isWorkingDay(day.date, calendar) ? 'bg-slate-50/70' : 'hover:bg-slate-50'} ${day.inPeriod ? '' : 'opacity-40'}`}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <span className={`text-xs font-black w-7 h-7 flex items-center justify-center rounded-full ${isToday ? 'bg-indigo-600 text-white' : 'text-slate-600'}`}>{Number(day.date.slice(8))}</span>
+                    {day.hours > 0 && <span className="text-[9px] font-black text-emerald-600">{day.hours}h</span>}
+                  </div>
+                  {(day.done > 0 || day.planned.length > 0) && (
+                    <div className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                      {day.done} done · {day.planned.length} open
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    {chips.map(task => (
+                      <div
+                        key={task.id}
+                        draggable
+                        onClick={(e) => e.stopPropagation()}
+                        onDragStart={(e) => { e.dataTransfer.setData('text/plain', task.id); e.dataTransfer.effectAllowed = 'move'; setDragId(task.id); }}
+                        onDragEnd={endDrag}
+                        title={`${task.title} (drag to reschedule)`}
+                        className={`px-2 py-1 rounded-md bg-slate-50 border border-slate-100 border-l-4 ${PRIORITY_BORDERS[task.priority]} text-[10px] font-bold text-slate-700 truncate cursor-grab active:cursor-grabbing ${dragId === task.id ? 'opacity-40' : ''}`}
+                      >
+                        {task.title}
+                      </div>
+                    ))}
+                    {day.planned.length > chips.length && (
+                      <div className="text-[9px] font-black uppercase tracking-widest text-indigo-500 px-1">+{day.planned.length - chips.length} more</div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {pendingMove && (
+        <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+          <form onSubmit={confirmMove} className="bg-white p-10 rounded-[2.5rem] shadow-2xl max-w-md w-full animate-in zoom-in-95">
+            <h3 className="text-xl font-black text-slate-800 mb-2">Reschedule Task</h3>
+            <p className="text-sm font-medium text-slate-500 mb-6">
+              <span className="font-bold text-slate-700">{pendingMove.task.title}</span> moves from {formatAppDate(pendingMove.task.logDate)} to {formatAppDate(pendingMove.date)}.
+            </p>
+            <label className="text-[9px] font-black text-indigo-400 uppercase tracking-widest ml-1">Reschedule Comment</label>
+            <input
+              autoFocus
+              type="text"
+              placeholder="Explain the delay..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full mt-2 text-sm p-4 rounded-2xl border border-indigo-100 outline-none bg-white font-medium shadow-sm"
+            />
+            <div className="flex gap-4 mt-8">
+              <button type="button" onClick={() => setPendingMove(null)} className="flex-1 text-[10px] font-black uppercase text-slate-400 tracking-widest">Cancel</button>
+              <button type="submit" className="flex-[3] bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest py-4 rounded-2xl shadow-xl shadow-slate-200">Save New Schedule</button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarView;
@@ -0,0 +1,139 @@
+
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Task, TaskStatus, ImportantPoint } from '../types';
+import { formatAppDate } from '../services/dateFormat';
+import { buildSearchIndex, parseSearchQuery, searchIndex, resultSnippet, highlight, SearchDoc } from '../services/searchService';
+
+interface CommandPaletteProps {
+  tasks: Task[];
+  points: ImportantPoint[];
+  onSelect: (doc: SearchDoc) => void;
+  onClose: () => void;
+}
+
+const STATUS_BADGES: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: 'bg-slate-50 text-slate-500 border-slate-100',
+  [TaskStatus.IN_PROGRESS]: 'bg-amber-50 text-amber-600 border-amber-100',
+  [TaskStatus.DONE]: 'bg-emerald-50 text-emerald-600 border-emerald-100'
+};
+
+const FILTER_HINTS = ['category:"Bug Fix"', 'status:done', 'status:open', 'before:2025-01-01', 'after:2025-01-01', 'type:point'];
+
+const Highlighted: React.FC<{ parts: { text: string; hit: boolean }[] }> = ({ parts }) => (
+  <>
+    {parts.map((part, i) => part.hit
+      ? <mark key={i} className="bg-amber-100 text-slate-900 rounded px-0.5">{part.text}</mark>
+      : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+  </>
+);
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ tasks, points, onSelect, onClose }) => {
+  const [input, setInput] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Built when the palette opens, so typing elsewhere in the app never pays for indexing.
+  const index = useMemo(() => buildSearchIndex(tasks, points), [tasks, points]);
+  const query = useMemo(() => parseSearchQuery(input), [input]);
+  const results = useMemo(() => searchIndex(index, query), [index, query]);
+
+  useEffect(() => setActive(0), [input]);
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onClose();
+    else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[active]) {
+      onSelect(results[active].doc);
+    }
+  };
+
+  const activeFilters = [
+    query.category && `category: ${query.category}`,
+    query.status && `status: ${query.status.replace('_', ' ').toLowerCase()}`,
+    query.kind && `type: ${query.kind}`,
+    query.before && `before ${formatAppDate(query.before)}`,
+    query.after && `after ${formatAppDate(query.after)}`
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur-sm flex items-start justify-center p-4 pt-[12vh]" onClick={onClose}>
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-4 px-6 border-b border-slate-100">
+          <i className="fa-solid fa-magnifying-glass text-slate-300"></i>
+          <input
+            autoFocus
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search tasks, notes and knowledge..."
+            className="flex-1 py-5 bg-transparent outline-none font-bold text-slate-700 placeholder:text-slate-300 placeholder:font-medium"
+          />
+          <kbd className="text-[9px] font-black uppercase tracking-widest text-slate-300 border border-slate-200 rounded-md px-2 py-1">Esc</kbd>
+        </div>
+
+        {activeFilters.length > 0 && (
+          <div className="flex flex-wrap gap-2 px-6 pt-4">
+            {activeFilters.map(f => (
+              <span key={f} className="text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full bg-indigo-50 text-indigo-600 border border-indigo-100">{f}</span>
+            ))}
+          </div>
+        )}
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto p-3">
+          {!input.trim() ? (
+            <div className="p-6">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-4">Filters</p>
+              <div className="flex flex-wrap gap-2">
+                {FILTER_HINTS.map(hint => (
+                  <button key={hint} onClick={() => setInput(`${hint} `)} className="font-mono text-xs text-slate-500 px-3 py-1.5 rounded-lg bg-slate-50 border border-slate-100 hover:border-indigo-200 hover:text-indigo-600">{hint}</button>
+                ))}
+              </div>
+            </div>
+          ) : results.length === 0 ? (
+            <div className="py-16 text-center text-[10px] font-black uppercase tracking-[0.3em] text-slate-300">No matches</div>
+          ) : (
+            results.map((result, i) => {
+              const { doc } = result;
+              const snippet = resultSnippet(result);
+              return (
+                <button
+                  key={`${doc.kind}-${doc.id}`}
+                  data-index={i}
+                  onClick={() => onSelect(doc)}
+                  onMouseMove={() => setActive(i)}
+                  className={`w-full text-left px-5 py-4 rounded-2xl flex items-start gap-4 transition-colors ${i === active ? 'bg-indigo-50' : ''}`}
+                >
+                  <i className={`fa-solid ${doc.kind === 'task' ? 'fa-list-check text-indigo-400' : 'fa-lightbulb text-amber-400'} mt-1`}></i>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-bold text-slate-800 truncate"><Highlighted parts={highlight(doc.title, result.matched)} /></div>
+                    {snippet && (
+                      <div className="text-xs text-slate-500 mt-1 line-clamp-2">
+                        <span className="text-[9px] font-black uppercase tracking-widest text-slate-300 mr-2">{snippet.label}</span>
+                        <Highlighted parts={snippet.parts} />
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    {doc.status && <span className={`text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full border ${STATUS_BADGES[doc.status]}`}>{doc.status.replace('_', ' ')}</span>}
+                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-300">{doc.category} · {formatAppDate(doc.date)}</span>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,86 @@
+
+import React, { useState, useEffect } from 'react';
+import { SyncConflict } from '../types';
+
+interface ConflictDialogProps {
+  conflict: SyncConflict;
+  remaining: number;
+  onResolve: (conflict: SyncConflict, choices: Record<string, 'local' | 'remote'>) => void;
+}
+
+const ENTITY_LABELS: Record<SyncConflict['entity'], string> = { task: 'Task', point: 'Knowledge Point', view: 'Saved View' };
+
+const fieldLabel = (field: string) => field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+const displayValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const ConflictDialog: React.FC<ConflictDialogProps> = ({ conflict, remaining, onResolve }) => {
+  const [choices, setChoices] = useState<Record<string, 'local' | 'remote'>>({});
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflict.fields.map(f => [f, 'local' as const])));
+  }, [conflict]);
+
+  const local = conflict.local as unknown as Record<string, unknown>;
+  const remote = conflict.remote as unknown as Record<string, unknown>;
+  const title = 'title' in conflict.local ? conflict.local.title : 'content' in conflict.local ? conflict.local.content : conflict.local.name;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-2xl rounded-[2.5rem] shadow-2xl p-10 animate-in zoom-in-95 duration-300">
+        <div className="flex items-center gap-4 mb-2">
+          <div className="w-12 h-12 bg-amber-50 text-amber-600 rounded-2xl flex items-center justify-center shadow-sm">
+            <i className="fa-solid fa-code-merge"></i>
+          </div>
+          <div>
+            <h2 className="text-xl font-black text-slate-800">Edited on Two Devices</h2>
+            <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">
+              {ENTITY_LABELS[conflict.entity]} · {remaining} conflict{remaining === 1 ? '' : 's'} left
+            </span>
+          </div>
+        </div>
+        <p className="text-sm font-bold text-slate-600 mt-6 mb-2">{title}</p>
+        <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-8">
+          Other fields were merged automatically. Pick which version to keep for each field below.
+          {conflict.remote.updatedAt && ` Other device saved at ${new Date(conflict.remote.updatedAt).toLocaleString()}.`}
+        </p>
+
+        <div className="space-y-6 max-h-[50vh] overflow-y-auto">
+          {conflict.fields.map(field => (
+            <div key={field} className="space-y-2">
+              <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">{fieldLabel(field)}</label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(['local', 'remote'] as const).map(side => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                    className={`text-left p-4 rounded-2xl border transition-all ${choices[field] === side ? 'border-indigo-500 bg-indigo-50 shadow-sm' : 'border-slate-100 bg-slate-50 hover:border-slate-200'}`}
+                  >
+                    <span className={`block text-[8px] font-black uppercase tracking-widest mb-2 ${choices[field] === side ? 'text-indigo-600' : 'text-slate-400'}`}>
+                      {side === 'local' ? 'This Device' : 'Other Device'}
+                    </span>
+                    <span className="text-xs font-bold text-slate-700 whitespace-pre-wrap break-words">{displayValue(side === 'local' ? local[field] : remote[field])}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onResolve(conflict, choices)}
+          className="w-full mt-10 bg-slate-900 hover:bg-indigo-600 text-white font-black uppercase tracking-widest text-[11px] py-4 rounded-2xl shadow-xl transition-all active:scale-95"
+        >
+          Keep Selected Versions
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
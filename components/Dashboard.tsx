@@ -1,23 +1,69 @@
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { Task, TaskStatus, User, ImportantPoint } from '../types';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Task, TaskStatus, User, ImportantPoint, DailyLog, SummaryVersion, Workspace, SyncState, SyncConflict, SyncResult, RemoteEvent, SeriesScope, WorkCalendar, LlmSettings, ActiveTimer, ReportTemplate, DateRange, SummarySection, SummarySectionId, SavedView } from '../types';
 import TaskForm from './TaskForm';
+import QuickAdd from './QuickAdd';
 import TaskList from './TaskList';
-import { generateDailySummary } from '../services/geminiService';
+import ConflictDialog from './ConflictDialog';
+import RolloverBanner from './RolloverBanner';
+import WorkCalendarSettings from './WorkCalendarSettings';
+import AiProviderSettings from './AiProviderSettings';
+import SlippageReport from './SlippageReport';
+import AnalyticsDashboard from './AnalyticsDashboard';
+import KanbanBoard from './KanbanBoard';
+import CalendarView from './CalendarView';
+import CommandPalette from './CommandPalette';
+import Timesheet from './Timesheet';
+import BackupPanel from './BackupPanel';
+import TaskImporter from './TaskImporter';
+import CalendarSync from './CalendarSync';
+import ReportRangePicker from './ReportRangePicker';
+import SummaryEditor from './SummaryEditor';
+import SummaryHistory from './SummaryHistory';
+import ViewBuilder from './ViewBuilder';
+import { generateReport, regenerateSection, sectionsToMarkdown } from '../services/aiReportService';
 import { apiService } from '../services/apiService';
+import { localStore } from '../services/localStore';
+import { syncQueue, pendingKey } from '../services/syncQueue';
+import { diffWorkspace } from '../services/changeTracker';
+import { withWorkspaceDefaults } from '../services/workspaceDefaults';
+import { SCHEMA_REQUIREMENTS } from '../services/schemaRequirements';
+import { mergeRecords, resolveConflict } from '../services/conflictService';
+import { realtimeService, mergeRemoteEvents, eventKey } from '../services/realtimeService';
+import { generateOccurrences, addDays } from '../services/recurrenceService';
+import { settingsService } from '../services/settingsService';
+import { nextWorkingDay, findStaleTasks, carryOver } from '../services/rolloverService';
+import { timerService, closeSegment, runningHours } from '../services/timerService';
+import { buildRangeDigest, buildDaySource, presetRange, RangePreset, ReportSource } from '../services/reportService';
+import { sortByUrgency, dueState, DUE_SOON_DAYS } from '../services/deadlineService';
+import { providerLabel } from '../services/llmProviders';
+import { buildSuggestionIndex } from '../services/suggestionService';
+import { findLog, addSummaryVersion, updateSummaryVersion, mergeLogVersions } from '../services/summaryHistoryService';
+import { withStatus } from '../services/boardService';
+import { exportIcs, IcsImportResult } from '../services/icsService';
+import { SearchDoc } from '../services/searchService';
+import { formatAppDate } from '../services/dateFormat';
+import { applyView, viewTabId } from '../services/viewService';
 
 interface DashboardProps {
   user: User;
-  initialData?: { tasks: Task[]; team: string[]; categories: string[]; points?: ImportantPoint[]; modules?: string[] };
+  initialData?: Workspace;
 }
 
-export const formatAppDate = (dateStr: string) => {
-  if (!dateStr) return '';
-  const [year, month, day] = dateStr.split('-');
-  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  const mIdx = parseInt(month, 10) - 1;
-  return `${day}-${months[mIdx]}-${year}`;
-};
+const EMPTY_WORKSPACE: Workspace = { tasks: [], team: [], categories: [], points: [], modules: [], logs: [], views: [] };
+
+// Where each record that can conflict field by field lives in the workspace.
+const STALE_LISTS: Record<SyncConflict['entity'], 'tasks' | 'points' | 'views'> = { task: 'tasks', point: 'points', view: 'views' };
+
+// Days from today that recurring occurrences are kept materialized for.
+const OCCURRENCE_WINDOW_DAYS = 14;
+
+const replaceById = <T extends { id: string }>(list: T[], record: T): T[] =>
+  list.some(r => r.id === record.id) ? list.map(r => r.id === record.id ? record : r) : [record, ...list];
+
+// Sections as currently stored, so a slow regeneration does not undo edits made while it ran.
+const latestSections = (logs: DailyLog[], date: string, versionId: string) =>
+  findLog(logs, date)?.summaries?.find(v => v.id === versionId)?.sections;
 
 const generateId = () => {
   try {
@@ -31,11 +77,13 @@ const generateId = () => {
 const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
   const todayStr = new Date().toISOString().split('T')[0];
   
-  const [allTasks, setAllTasks] = useState<Task[]>(initialData?.tasks || []);
-  const [teamMembers, setTeamMembers] = useState<string[]>(initialData?.team || ['Self']);
-  const [categories, setCategories] = useState<string[]>(initialData?.categories || ['Meeting', 'Development', 'Bug Fix', 'Testing', 'Planning']);
-  const [importantPoints, setImportantPoints] = useState<ImportantPoint[]>(initialData?.points || []);
-  const [modules, setModules] = useState<string[]>(initialData?.modules || ['General', 'Technical', 'Process', 'Credentials']);
+  const [allTasks, setAllTasks] = useState<Task[]>([]);
+  const [teamMembers, setTeamMembers] = useState<string[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [importantPoints, setImportantPoints] = useState<ImportantPoint[]>([]);
+  const [modules, setModules] = useState<string[]>([]);
+  const [dailyLogs, setDailyLogs] = useState<DailyLog[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
   
   const [newMemberName, setNewMemberName] = useState('');
   const [newCategoryName, setNewCategoryName] = useState('');
@@ -55,11 +103,33 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
     tomorrow.setDate(tomorrow.getDate() + 1);
     return tomorrow.toISOString().split('T')[0];
   });
+  // Dates the calendar tab last showed, so recurring occurrences exist there too.
+  const [calendarRange, setCalendarRange] = useState<{ from: string; to: string } | null>(null);
   
-  const [aiSummary, setAiSummary] = useState<string>('');
+  // Saved version open in the AI Review tab; null shows the latest one filed for the report date.
+  const [openVersionId, setOpenVersionId] = useState<string | null>(null);
+  const [reportError, setReportError] = useState('');
+  const [regeneratingSection, setRegeneratingSection] = useState<SummarySectionId | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'synced' | 'error'>('idle');
-  const [activeTab, setActiveTab] = useState<'diary' | 'planner' | 'future' | 'team' | 'overview' | 'summary' | 'points'>('diary');
+  const [reportTemplate, setReportTemplate] = useState<ReportTemplate>('daily');
+  const [reportPreset, setReportPreset] = useState<RangePreset>('today');
+  const [reportRange, setReportRange] = useState<DateRange>(() => presetRange('today', todayStr));
+  const [syncStatus, setSyncStatus] = useState<SyncState>('idle');
+  const [hydrated, setHydrated] = useState(false);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [workCalendar, setWorkCalendar] = useState<WorkCalendar>(() => settingsService.getWorkCalendar(user.id));
+  const [targetHours, setTargetHours] = useState<number>(() => settingsService.getDailyTargetHours(user.id));
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(() => settingsService.getLlmSettings(user.id));
+  const [feedToken, setFeedToken] = useState<string | null>(() => user.isGuest ? null : settingsService.getCalendarFeedToken(user.id));
+  const [feedError, setFeedError] = useState('');
+  const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(() => timerService.get(user.id));
+  const [now, setNow] = useState(Date.now());
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [focusTarget, setFocusTarget] = useState<string | null>(null);
+  const [rolloverDismissedOn, setRolloverDismissedOn] = useState<string | null>(() => settingsService.getRolloverDismissedOn(user.id));
+  const [activeTab, setActiveTab] = useState<'diary' | 'planner' | 'future' | 'calendar' | 'board' | 'deadlines' | 'timesheet' | 'team' | 'overview' | 'summary' | 'points' | `view:${string}`>('diary');
+  // The saved view open in the builder; 'new' while creating one.
+  const [editingView, setEditingView] = useState<SavedView | 'new' | null>(null);
 
   useEffect(() => {
     if (modules.length > 0 && !selectedPointModule) {
@@ -67,45 +137,196 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
     }
   }, [modules]);
 
+  // What the outbox already accounts for; each persisted change is diffed against it.
+  const baselineRef = useRef<Workspace | null>(null);
+  const workspaceRef = useRef<Workspace>(EMPTY_WORKSPACE);
+  workspaceRef.current = { tasks: allTasks, team: teamMembers, categories, points: importantPoints, modules, logs: dailyLogs, views: savedViews };
+
+  const applyWorkspace = useCallback((ws: Workspace) => {
+    setAllTasks(ws.tasks);
+    setTeamMembers(ws.team);
+    setCategories(ws.categories);
+    setImportantPoints(ws.points);
+    setModules(ws.modules);
+    setDailyLogs(ws.logs);
+    setSavedViews(ws.views);
+  }, []);
+
+  // The local store is the source of truth: it wins whenever it still holds edits the server has not seen.
   useEffect(() => {
-    if (!initialData && !user.isGuest) {
-      apiService.fetchWorkspace(user.id).then(res => {
-        setAllTasks(res.tasks);
-        setTeamMembers(res.team);
-        setCategories(res.categories);
-        setImportantPoints(res.points || []);
-        setModules(res.modules || []);
-      });
+    let cancelled = false;
+    const hydrate = async () => {
+      try {
+        const local = await localStore.loadWorkspace(user.id);
+        const pending = await localStore.countOutbox(user.id);
+        let source: Workspace | null = null;
+        if (local && (pending > 0 || !initialData)) source = local;
+        else if (initialData) source = initialData;
+        else if (!user.isGuest) source = await apiService.fetchWorkspace(user.id);
+        if (cancelled) return;
+        baselineRef.current = source;
+        applyWorkspace(withWorkspaceDefaults(source || undefined));
+      } catch (e) {
+        console.error("Failed to load workspace:", e);
+      } finally {
+        if (!cancelled) setHydrated(true);
+      }
+    };
+    setHydrated(false);
+    hydrate();
+    return () => { cancelled = true; };
+  }, [user.id, user.isGuest, initialData, applyWorkspace]);
+
+  useEffect(() => syncQueue.subscribe(snapshot => setSyncStatus(snapshot.state)), []);
+
+  const replaceRecord = useCallback((entity: SyncConflict['entity'], record: SyncConflict['merged']) => {
+    if (entity === 'task') setAllTasks(prev => replaceById(prev, record as Task));
+    else if (entity === 'point') setImportantPoints(prev => replaceById(prev, record as ImportantPoint));
+    else setSavedViews(prev => replaceById(prev, record as SavedView));
+  }, []);
+
+  // Server revisions are patched into both the baseline and the live state so they never read as local edits.
+  // Stale writes are rebased onto the server copy: disjoint edits merge silently, overlapping ones go to the dialog.
+  const handleSyncResult = useCallback(({ applied, stale }: SyncResult) => {
+    const meta = new Map(applied.filter(a => a.entity === 'task' || a.entity === 'point' || a.entity === 'log' || a.entity === 'view').map(a => [a.key, { revision: a.revision, updatedAt: a.updatedAt }]));
+    const patch = <T extends { id: string }>(list: T[]) => list.map(r => meta.has(r.id) ? { ...r, ...meta.get(r.id) } : r);
+    if (baselineRef.current) {
+      baselineRef.current = { ...baselineRef.current, tasks: patch(baselineRef.current.tasks), points: patch(baselineRef.current.points), logs: patch(baselineRef.current.logs || []), views: patch(baselineRef.current.views || []) };
+    }
+    if (meta.size > 0) {
+      setAllTasks(prev => patch(prev));
+      setImportantPoints(prev => patch(prev));
+      setDailyLogs(prev => patch(prev));
+      setSavedViews(prev => patch(prev));
     }
-  }, [user.id, user.isGuest, initialData]);
 
-  const syncToServer = useCallback(async (tasks: Task[], team: string[], cats: string[], points: ImportantPoint[], mods: string[]) => {
-    if (user.isGuest) return;
-    setSyncStatus('syncing');
-    try {
-      await apiService.syncWorkspace(user.id, tasks, team, cats, points, mods);
-      setSyncStatus('synced');
-      setTimeout(() => setSyncStatus(prev => prev === 'synced' ? 'idle' : prev), 3000);
-    } catch (e) {
-      setSyncStatus('error');
+    stale.forEach(({ change, remote: row }) => {
+      // Summary versions never conflict field by field: both devices' versions are kept.
+      if (change.entity === 'log') {
+        const local = workspaceRef.current.logs.find(l => l.id === change.key);
+        if (!local || !baselineRef.current) return;
+        baselineRef.current = { ...baselineRef.current, logs: replaceById(baselineRef.current.logs || [], row as DailyLog) };
+        setDailyLogs(prev => replaceById(prev, mergeLogVersions(local, row as DailyLog)));
+        return;
+      }
+      const entity = change.entity as SyncConflict['entity'];
+      const list = STALE_LISTS[entity];
+      const remote = row as SyncConflict['remote'];
+      const local = (workspaceRef.current[list] as SyncConflict['local'][]).find(r => r.id === change.key);
+      if (!local || !baselineRef.current) return;
+      baselineRef.current = { ...baselineRef.current, [list]: replaceById((baselineRef.current[list] || []) as SyncConflict['remote'][], remote) };
+      const { merged, fields } = mergeRecords(change.base as SyncConflict['local'] | undefined, local, remote);
+      if (fields.length === 0) {
+        replaceRecord(entity, merged);
+      } else {
+        const conflict: SyncConflict = { entity, key: change.key, local, remote, merged, fields };
+        setConflicts(prev => [...prev.filter(c => c.key !== change.key), conflict]);
+      }
+    });
+  }, [replaceRecord]);
+
+  useEffect(() => syncQueue.onResult(handleSyncResult), [handleSyncResult]);
+
+  // Remote events are buffered briefly and coalesced per entity, so bursts of edits to one record
+  // (and echoes of our own writes) land as a single change.
+  useEffect(() => {
+    if (!hydrated || user.isGuest) return;
+    let buffer = new Map<string, RemoteEvent>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const drain = async () => {
+      timer = null;
+      const events = Array.from(buffer.values());
+      buffer = new Map();
+      const pending = await syncQueue.pendingKeys(user.id);
+      if (!baselineRef.current) return;
+      const merged = mergeRemoteEvents(workspaceRef.current, baselineRef.current, events, pending);
+      baselineRef.current = merged.baseline;
+      applyWorkspace(merged.state);
+    };
+    const unsubscribe = realtimeService.subscribe(user.id, event => {
+      buffer.set(pendingKey(event.entity, eventKey(event)), event);
+      if (!timer) timer = setTimeout(drain, 300);
+    });
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [hydrated, user.id, user.isGuest, applyWorkspace]);
+
+  const handleResolveConflict = (conflict: SyncConflict, choices: Record<string, 'local' | 'remote'>) => {
+    replaceRecord(conflict.entity, resolveConflict(conflict.merged, conflict.local, choices));
+    setConflicts(prev => prev.filter(c => c.key !== conflict.key));
+  };
+
+  useEffect(() => {
+    if (!hydrated) return;
+    const workspace: Workspace = { tasks: allTasks, team: teamMembers, categories, points: importantPoints, modules, logs: dailyLogs, views: savedViews };
+    const changes = diffWorkspace(baselineRef.current || EMPTY_WORKSPACE, workspace);
+    baselineRef.current = workspace;
+    const persist = async () => {
+      try {
+        await localStore.saveWorkspace(user.id, workspace);
+        if (user.isGuest || changes.length === 0) return;
+        await syncQueue.enqueue(user.id, changes);
+        syncQueue.scheduleFlush(1500);
+      } catch (e) {
+        console.error("Failed to persist workspace locally:", e);
+      }
+    };
+    persist();
+  }, [allTasks, teamMembers, categories, importantPoints, modules, dailyLogs, savedViews, hydrated, user.id, user.isGuest]);
+
+  // The subscription feed is rewritten a few seconds after the plan settles, not on every keystroke.
+  useEffect(() => {
+    if (!hydrated || !feedToken) return;
+    const timer = setTimeout(() => {
+      apiService.publishCalendarFeed(user.id, feedToken, exportIcs(allTasks))
+        .then(() => setFeedError(''))
+        .catch((e: any) => setFeedError(`Could not update the calendar feed: ${e.message}`));
+    }, 5000);
+    return () => clearTimeout(timer);
+  }, [allTasks, feedToken, hydrated, user.id]);
+
+  // Series templates only generate occurrences; they never show up in a list themselves.
+  const diaryTasks = useMemo<Task[]>(() => allTasks.filter(t => !t.recurrence && t.logDate === diaryDate && t.status === TaskStatus.DONE), [allTasks, diaryDate]);
+  const todayPlannedTasks = useMemo<Task[]>(() => allTasks.filter(t => !t.recurrence && t.logDate === todayStr && t.status !== TaskStatus.DONE), [allTasks, todayStr]);
+  const futurePlannedTasks = useMemo<Task[]>(() => allTasks.filter(t => !t.recurrence && t.logDate === futureDate && t.status !== TaskStatus.DONE), [allTasks, futureDate]);
+  const deadlineTasks = useMemo<Task[]>(() => sortByUrgency(allTasks), [allTasks]);
+  const suggestionIndex = useMemo(() => buildSuggestionIndex(allTasks), [allTasks]);
+  const overdueCount = useMemo(() => deadlineTasks.filter(t => dueState(t, todayStr) === 'overdue').length, [deadlineTasks, todayStr]);
+  const dueSoonCount = useMemo(() => deadlineTasks.filter(t => ['today', 'soon'].includes(dueState(t, todayStr) || '')).length, [deadlineTasks, todayStr]);
+  const seriesById = useMemo<Record<string, Task>>(() => Object.fromEntries(allTasks.filter(t => t.recurrence).map(t => [t.id, t])), [allTasks]);
+
+  // Occurrences are materialized over a rolling window from today, so the board, deadlines and saved views
+  // see the coming weeks, plus whatever later dates the future tab and calendar show. Past days are not back-filled.
+  const occurrenceDates = useMemo<string[]>(() => {
+    const dates = new Set(Array.from({ length: OCCURRENCE_WINDOW_DAYS }, (_, i) => addDays(todayStr, i)));
+    dates.add(futureDate);
+    if (calendarRange) {
+      for (let date = calendarRange.from < todayStr ? todayStr : calendarRange.from; date <= calendarRange.to; date = addDays(date, 1)) dates.add(date);
     }
-  }, [user.id, user.isGuest]);
+    return Array.from(dates);
+  }, [todayStr, futureDate, calendarRange]);
 
   useEffect(() => {
-    const timeout = setTimeout(() => {
-      syncToServer(allTasks, teamMembers, categories, importantPoints, modules);
-    }, 1500);
-    return () => clearTimeout(timeout);
-  }, [allTasks, teamMembers, categories, importantPoints, modules, syncToServer]);
+    if (!hydrated) return;
+    const created = generateOccurrences(allTasks, occurrenceDates);
+    if (created.length > 0) setAllTasks(prev => [...created, ...prev]);
+  }, [hydrated, allTasks, occurrenceDates]);
 
-  const diaryTasks = useMemo<Task[]>(() => allTasks.filter(t => t.logDate === diaryDate && t.status === TaskStatus.DONE), [allTasks, diaryDate]);
-  const todayPlannedTasks = useMemo<Task[]>(() => allTasks.filter(t => t.logDate === todayStr && t.status !== TaskStatus.DONE), [allTasks, todayStr]);
-  const futurePlannedTasks = useMemo<Task[]>(() => allTasks.filter(t => t.logDate === futureDate && t.status !== TaskStatus.DONE), [allTasks, futureDate]);
-  const totalHoursLogged = useMemo<number>(() => diaryTasks.reduce((acc, t) => acc + (t.duration || 0), 0), [diaryTasks]);
+  const showCalendarRange = useCallback((from: string, to: string) => setCalendarRange({ from, to }), []);
+
+  const rolloverTarget = useMemo(() => nextWorkingDay(todayStr, workCalendar), [todayStr, workCalendar]);
+  const staleTasks = useMemo<Task[]>(() => hydrated ? findStaleTasks(allTasks, todayStr, rolloverTarget) : [], [hydrated, allTasks, todayStr, rolloverTarget]);
+
+  // Today's diary also counts the time on the clock right now.
+  const totalHoursLogged = useMemo<number>(() => {
+    const logged = diaryTasks.reduce((acc, t) => acc + (t.duration || 0), 0);
+    const live = diaryDate === todayStr ? runningHours(activeTimer, now) : 0;
+    return Math.round((logged + live) * 100) / 100;
+  }, [diaryTasks, diaryDate, todayStr, activeTimer, now]);
 
   // Fix: Move task count logic to useMemo to resolve "unknown" type inference issues in the Overview tab.
-  const completedLogsCount = useMemo(() => allTasks.filter(t => t.status === TaskStatus.DONE).length, [allTasks]);
-  const openCommitmentsCount = useMemo(() => allTasks.filter(t => t.status !== TaskStatus.DONE).length, [allTasks]);
 
   const groupedPoints = useMemo(() => {
     const searchLower = pointsSearch.toLowerCase();
@@ -125,34 +346,187 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
     return groups;
   }, [importantPoints, pointsSearch, modules]);
 
-  const addTask = (taskData: Omit<Task, 'id' | 'createdAt' | 'logDate'>) => {
+  // Quick add may name its own date ("tomorrow"); otherwise the task goes on the date the tab shows.
+  const addTask = (taskData: Omit<Task, 'id' | 'createdAt' | 'logDate'>, logDate?: string) => {
     let targetDate = todayStr;
     if (activeTab === 'diary') targetDate = diaryDate;
     if (activeTab === 'future') targetDate = futureDate;
-    const newTask: Task = { ...taskData, id: generateId(), createdAt: Date.now(), logDate: targetDate };
+    const newTask: Task = { ...taskData, id: generateId(), createdAt: Date.now(), logDate: logDate || targetDate };
     setAllTasks(prev => [newTask, ...prev]);
   };
 
+  useEffect(() => timerService.subscribe(user.id, setActiveTimer), [user.id]);
+
+  useEffect(() => {
+    if (!activeTimer?.runningSince) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeTimer?.runningSince]);
+
+  const changeTimer = useCallback((timer: ActiveTimer | null) => {
+    setActiveTimer(timer);
+    timerService.set(user.id, timer);
+  }, [user.id]);
+
+  // A timer whose task was deleted (here or by a realtime delete) has nothing left to record into. Only a
+  // task this session actually saw disappear counts: one started in another tab on a task this tab has not
+  // loaded yet is left running.
+  const seenTaskIdsRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    if (!hydrated) {
+      seenTaskIdsRef.current = null;
+      return;
+    }
+    const ids = new Set(allTasks.map(t => t.id));
+    const seen = seenTaskIdsRef.current;
+    seenTaskIdsRef.current = ids;
+    const timer = timerService.get(user.id);
+    if (seen && timer && seen.has(timer.taskId) && !ids.has(timer.taskId)) changeTimer(null);
+  }, [hydrated, allTasks, user.id, changeTimer]);
+
+  const closeRunningSegment = useCallback(() => {
+    const timer = timerService.get(user.id);
+    if (!timer?.runningSince) return;
+    const end = Date.now();
+    setAllTasks(prev => prev.map(t => t.id === timer.taskId ? closeSegment(t, timer.runningSince!, end) : t));
+  }, [user.id]);
+
+  // Only one timer runs at a time: starting one books the time of whichever was running before.
+  const startTimer = useCallback((id: string) => {
+    const current = timerService.get(user.id);
+    if (current?.taskId === id && current.runningSince) return;
+    closeRunningSegment();
+    setNow(Date.now());
+    changeTimer({ taskId: id, runningSince: Date.now() });
+  }, [user.id, closeRunningSegment, changeTimer]);
+
+  const pauseTimer = useCallback((id: string) => {
+    closeRunningSegment();
+    changeTimer({ taskId: id, runningSince: null });
+  }, [closeRunningSegment, changeTimer]);
+
+  const stopTimer = useCallback(() => {
+    closeRunningSegment();
+    changeTimer(null);
+  }, [closeRunningSegment, changeTimer]);
+
+  const importTasks = (tasks: Task[], newCategories: string[]) => {
+    if (newCategories.length > 0) setCategories(prev => [...prev, ...newCategories.filter(c => !prev.includes(c))]);
+    setAllTasks(prev => [...tasks, ...prev]);
+  };
+
+  const importCalendar = (result: IcsImportResult) => {
+    const meeting = result.created[0]?.category;
+    if (meeting && !categories.includes(meeting)) setCategories(prev => [...prev, meeting]);
+    const updates = new Map(result.updated.map(t => [t.id, t]));
+    setAllTasks(prev => [...result.created, ...prev.map(t => updates.get(t.id) || t)]);
+  };
+
+  const enableCalendarFeed = () => {
+    const token = generateId().replace(/-/g, '');
+    setFeedToken(token);
+    settingsService.saveCalendarFeedToken(user.id, token);
+    apiService.publishCalendarFeed(user.id, token, exportIcs(allTasks))
+      .then(() => setFeedError(''))
+      .catch((e: any) => setFeedError(`Could not publish the calendar feed: ${e.message}`));
+  };
+
+  const disableCalendarFeed = () => {
+    if (!feedToken) return;
+    apiService.removeCalendarFeed(user.id, feedToken).catch((e: any) => console.error("Failed to delete calendar feed:", e));
+    setFeedToken(null);
+    setFeedError('');
+    settingsService.saveCalendarFeedToken(user.id, null);
+  };
+
   const updateTaskStatus = useCallback((id: string, status: TaskStatus) => {
+    if (status === TaskStatus.DONE && timerService.get(user.id)?.taskId === id) stopTimer();
+    setAllTasks(prev => prev.map(t => t.id === id ? withStatus(t, status, todayStr) : t));
+  }, [todayStr, user.id, stopTimer]);
+
+  // A board drop: a card moved to another column changes status exactly as updateTaskStatus would.
+  const placeTask = useCallback((id: string, status: TaskStatus, sortOrder: number) => {
+    if (status === TaskStatus.DONE && timerService.get(user.id)?.taskId === id) stopTimer();
     setAllTasks(prev => prev.map(t => {
-      if (t.id === id) {
-        const isNowDone = status === TaskStatus.DONE;
-        return { ...t, status, logDate: isNowDone ? todayStr : t.logDate, completedAt: isNowDone ? Date.now() : undefined };
-      }
-      return t;
+      if (t.id !== id) return t;
+      return { ...(t.status === status ? t : withStatus(t, status, todayStr)), sortOrder };
     }));
-  }, [todayStr]);
+  }, [todayStr, user.id, stopTimer]);
 
-  const deleteTask = useCallback((id: string) => {
-    setAllTasks(prev => prev.filter(t => t.id !== id));
-    if (!user.isGuest) {
-      apiService.deleteTask(user.id, id).catch(err => console.error("Failed to delete task:", err));
-    }
-  }, [user.id, user.isGuest]);
+  const deleteTask = useCallback((id: string, scope: SeriesScope = 'this') => {
+    setAllTasks(prev => {
+      const task = prev.find(t => t.id === id);
+      const seriesTemplate = task?.seriesId ? prev.find(t => t.id === task.seriesId) : undefined;
+      if (!task || !seriesTemplate || !task.occurrenceDate) return prev.filter(t => t.id !== id);
+
+      const date = task.occurrenceDate;
+      // Completed occurrences are diary history and survive series-wide deletes.
+      const isOpenFrom = (t: Task, from: string) => t.seriesId === seriesTemplate.id && t.status !== TaskStatus.DONE && (t.occurrenceDate || '') >= from;
+      if (scope === 'this') {
+        return prev
+          .filter(t => t.id !== id)
+          .map(t => t.id === seriesTemplate.id ? { ...t, skippedDates: [...(t.skippedDates || []), date] } : t);
+      }
+      if (scope === 'following' && date > seriesTemplate.logDate) {
+        return prev
+          .filter(t => !isOpenFrom(t, date))
+          .map(t => t.id === seriesTemplate.id ? { ...t, recurrence: { ...t.recurrence!, endDate: addDays(date, -1), count: undefined } } : t);
+      }
+      return prev.filter(t => t.id !== seriesTemplate.id && !isOpenFrom(t, ''));
+    });
+  }, []);
+
+  const editTask = useCallback((id: string, changes: Partial<Task>, scope: SeriesScope) => {
+    setAllTasks(prev => {
+      const task = prev.find(t => t.id === id);
+      if (!task?.seriesId || scope === 'this') {
+        return prev.map(t => t.id === id ? { ...t, ...changes, detached: task?.seriesId ? true : t.detached } : t);
+      }
+      // The template drives occurrences not generated yet; already generated open ones are updated
+      // in place unless they were edited on their own.
+      const from = scope === 'all' ? '' : (task.occurrenceDate || '');
+      return prev.map(t => {
+        if (t.id === task.seriesId) return { ...t, ...changes };
+        const inScope = t.seriesId === task.seriesId && t.status !== TaskStatus.DONE && (t.occurrenceDate || '') >= from;
+        return inScope && (!t.detached || t.id === id) ? { ...t, ...changes, detached: false } : t;
+      });
+    });
+  }, []);
+
+  const updateWorkCalendar = (calendar: WorkCalendar) => {
+    setWorkCalendar(calendar);
+    settingsService.saveWorkCalendar(user.id, calendar);
+  };
+
+  const updateLlmSettings = (settings: LlmSettings) => {
+    setLlmSettings(settings);
+    settingsService.saveLlmSettings(user.id, settings);
+  };
+
+  const updateTargetHours = (hours: number) => {
+    setTargetHours(hours);
+    settingsService.saveDailyTargetHours(user.id, hours);
+  };
+
+  const carryOverTasks = (ids: string[]) => {
+    const selected = new Set(ids);
+    setAllTasks(prev => prev.map(t => selected.has(t.id) ? carryOver(t, rolloverTarget, 'Carried over unfinished', true) : t));
+  };
+
+  const dismissRollover = () => {
+    setRolloverDismissedOn(todayStr);
+    settingsService.setRolloverDismissedOn(user.id, todayStr);
+  };
 
   const moveTask = useCallback((id: string, newDate: string, reason: string) => {
     setAllTasks(prev => prev.map(t => 
-      t.id === id ? { ...t, logDate: newDate, postponedReason: reason } : t
+      t.id === id && t.logDate !== newDate ? carryOver(t, newDate, reason) : t
+    ));
+  }, []);
+
+  const updateTaskDueDate = useCallback((id: string, dueDate?: string) => {
+    setAllTasks(prev => prev.map(t => 
+      t.id === id ? { ...t, dueDate } : t
     ));
   }, []);
 
@@ -237,18 +611,190 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
     }
   };
 
+  // Daily reports are filed under the diary date and range reports under the last day of their range.
+  const reportDate = reportTemplate === 'daily' ? diaryDate : reportRange.to;
+  const reportVersions = useMemo<SummaryVersion[]>(
+    () => (findLog(dailyLogs, reportDate)?.summaries || []).filter(v => v.template === reportTemplate),
+    [dailyLogs, reportDate, reportTemplate]
+  );
+  const openVersion = reportVersions.find(v => v.id === openVersionId) || reportVersions[reportVersions.length - 1];
+  const savedDiaryReview = useMemo(() => {
+    const daily = (findLog(dailyLogs, diaryDate)?.summaries || []).filter(v => v.template === 'daily');
+    return daily[daily.length - 1];
+  }, [dailyLogs, diaryDate]);
+
+  useEffect(() => setOpenVersionId(null), [reportDate, reportTemplate]);
+
+  const reportSource = (template: ReportTemplate, date: string, range?: DateRange): ReportSource => template === 'daily'
+    ? buildDaySource(allTasks, date)
+    : { kind: 'range', digest: buildRangeDigest(allTasks, range || reportRange) };
+
   const handleGenerateSummary = async () => {
     setIsGenerating(true);
-    const summary = await generateDailySummary(diaryTasks);
-    setAiSummary(summary);
-    setIsGenerating(false);
+    setReportError('');
+    const date = reportDate;
+    const range = reportTemplate === 'daily' ? undefined : reportRange;
+    try {
+      const version: SummaryVersion = {
+        id: generateId(),
+        createdAt: Date.now(),
+        template: reportTemplate,
+        range,
+        generatedBy: providerLabel(llmSettings),
+        sections: await generateReport(reportSource(reportTemplate, date, range), reportTemplate, llmSettings)
+      };
+      setDailyLogs(prev => addSummaryVersion(prev, date, version));
+      setOpenVersionId(version.id);
+    } catch (e: any) {
+      setReportError(e.message);
+    } finally {
+      setIsGenerating(false);
+      setActiveTab('summary');
+    }
+  };
+
+  // Edits and regenerated sections are saved into the open version; only Generate adds a new one.
+  const updateOpenSections = (sections: SummarySection[]) => {
+    if (openVersion) setDailyLogs(prev => updateSummaryVersion(prev, reportDate, openVersion.id, sections));
+  };
+
+  const handleRegenerateSection = async (id: SummarySectionId) => {
+    if (!openVersion) return;
+    const source = reportSource(openVersion.template, reportDate, openVersion.range);
+    if (source.kind === 'day' && source.tasks.length === 0) {
+      setReportError("No tasks logged for this date.");
+      return;
+    }
+    const version = openVersion;
+    setRegeneratingSection(id);
+    setReportError('');
+    try {
+      const section = await regenerateSection(source, version.template, version.sections, id, llmSettings);
+      setDailyLogs(prev => {
+        const current = latestSections(prev, reportDate, version.id) || version.sections;
+        return updateSummaryVersion(prev, reportDate, version.id, current.map(s => s.id === id ? section : s));
+      });
+    } catch (e: any) {
+      setReportError(e.message);
+    } finally {
+      setRegeneratingSection(null);
+    }
+  };
+
+  const openDiaryReview = () => {
+    setReportTemplate('daily');
     setActiveTab('summary');
   };
 
+  const changeReportRange = (template: ReportTemplate, preset: RangePreset, range: DateRange) => {
+    setReportTemplate(template);
+    setReportPreset(preset);
+    setReportRange(range);
+  };
+
   const goToWorkspace = () => setActiveTab('team');
 
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  // Once the tab holding a search result has rendered, bring the item into view and flash it.
+  useEffect(() => {
+    if (!focusTarget) return;
+    const element = document.getElementById(focusTarget);
+    setFocusTarget(null);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    element.classList.add('ring-4', 'ring-indigo-200');
+    setTimeout(() => element.classList.remove('ring-4', 'ring-indigo-200'), 2000);
+  }, [focusTarget, activeTab]);
+
+  // Completed tasks live in the diary; open ones on the day they are planned, or under Deadlines once overdue.
+  const jumpTo = (doc: SearchDoc) => {
+    setPaletteOpen(false);
+    if (doc.kind === 'point') {
+      setPointsSearch('');
+      setActiveTab('points');
+    } else if (doc.status === TaskStatus.DONE) {
+      setDiaryDate(doc.date);
+      setActiveTab('diary');
+    } else if (doc.date === todayStr) {
+      setActiveTab('planner');
+    } else if (doc.date > todayStr) {
+      setFutureDate(doc.date);
+      setActiveTab('future');
+    } else {
+      setActiveTab('deadlines');
+    }
+    setFocusTarget(`${doc.kind}-${doc.id}`);
+  };
+
+  const activeView = savedViews.find(v => viewTabId(v) === activeTab);
+  const viewTasks = useMemo(() => activeView ? applyView(allTasks, activeView, todayStr) : [], [allTasks, activeView, todayStr]);
+
+  // A view deleted on another device takes its open tab with it.
+  useEffect(() => {
+    if (activeTab.startsWith('view:') && !activeView) setActiveTab('diary');
+  }, [activeTab, activeView]);
+
+  const saveView = (view: SavedView) => {
+    setSavedViews(prev => prev.some(v => v.id === view.id) ? replaceById(prev, view) : [...prev, view]);
+    setEditingView(null);
+    setActiveTab(viewTabId(view));
+  };
+
+  const deleteView = (id: string) => {
+    setSavedViews(prev => prev.filter(v => v.id !== id));
+    setEditingView(null);
+  };
+
+  // Past days open in the diary, today in the plan and later days on the roadmap.
+  const openDay = (date: string) => {
+    if (date < todayStr) {
+      setDiaryDate(date);
+      setActiveTab('diary');
+    } else if (date === todayStr) {
+      setActiveTab('planner');
+    } else {
+      setFutureDate(date);
+      setActiveTab('future');
+    }
+  };
+
   return (
     <div className="max-w-5xl mx-auto px-4 py-8">
+      {conflicts.length > 0 && (
+        <ConflictDialog conflict={conflicts[0]} remaining={conflicts.length} onResolve={handleResolveConflict} />
+      )}
+
+      {paletteOpen && (
+        <CommandPalette tasks={allTasks} points={importantPoints} onSelect={jumpTo} onClose={() => setPaletteOpen(false)} />
+      )}
+
+      {editingView && (
+        <ViewBuilder
+          view={editingView === 'new' ? null : editingView}
+          tasks={allTasks}
+          categories={categories}
+          teamMembers={teamMembers}
+          today={todayStr}
+          onSave={saveView}
+          onDelete={deleteView}
+          onClose={() => setEditingView(null)}
+        />
+      )}
+
+      {staleTasks.length > 0 && rolloverDismissedOn !== todayStr && (
+        <RolloverBanner tasks={staleTasks} targetDate={rolloverTarget} onCarryOver={carryOverTasks} onDismiss={dismissRollover} />
+      )}
+
       {/* Header Context */}
       <div className="bg-white p-6 rounded-[2rem] shadow-sm border border-slate-200 mb-8 flex flex-col md:flex-row justify-between items-center gap-6">
         <div className="flex items-center gap-4">
@@ -279,7 +825,31 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
                 <button onClick={() => { const d = new Date(futureDate); d.setDate(d.getDate()+1); setFutureDate(d.toISOString().split('T')[0]); }} className="p-3 hover:bg-white rounded-xl text-slate-400"><i className="fa-solid fa-chevron-right"></i></button>
               </>
             )}
-            {['team', 'overview', 'summary', 'points'].includes(activeTab) && (
+            {activeTab === 'calendar' && (
+              <div className="px-6 py-2 flex items-center gap-3">
+                <i className="fa-solid fa-calendar-days text-indigo-500"></i>
+                <span className="text-sm font-black text-slate-800">Click a Day to Open It</span>
+              </div>
+            )}
+            {activeTab === 'board' && (
+              <div className="px-6 py-2 flex items-center gap-3">
+                <i className="fa-solid fa-table-columns text-indigo-500"></i>
+                <span className="text-sm font-black text-slate-800">Board: Drag to Change Status</span>
+              </div>
+            )}
+            {activeTab === 'deadlines' && (
+              <div className="px-6 py-2 flex items-center gap-3">
+                <i className="fa-solid fa-flag-checkered text-red-500"></i>
+                <span className="text-sm font-black text-slate-800">Open Work by Urgency</span>
+              </div>
+            )}
+            {activeView && (
+              <div className="px-6 py-2 flex items-center gap-3">
+                <i className="fa-solid fa-filter text-indigo-500"></i>
+                <span className="text-sm font-black text-slate-800">{activeView.name}</span>
+              </div>
+            )}
+            {['timesheet', 'team', 'overview', 'summary', 'points'].includes(activeTab) && (
               <div className="px-10 py-2">
                  <span className="text-[10px] font-black uppercase text-slate-500 tracking-[0.3em]">Workspace Central</span>
               </div>
@@ -292,11 +862,18 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
              <div className="flex items-center gap-3 px-5 py-2.5 bg-slate-900 text-white rounded-2xl shadow-xl shadow-slate-100">
                <i className="fa-solid fa-fire text-amber-400"></i>
                <span className="text-[10px] font-black uppercase tracking-widest">{totalHoursLogged}h Logged Today</span>
+               {activeTimer?.runningSince && diaryDate === todayStr && <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" title="Timer running"></span>}
              </div>
            )}
+           <button onClick={() => setPaletteOpen(true)} className="flex items-center gap-3 px-4 py-2.5 bg-slate-50 border border-slate-100 rounded-2xl text-slate-400 hover:text-indigo-600 hover:border-indigo-100 transition-all" title="Search everything (Ctrl+K)">
+             <i className="fa-solid fa-magnifying-glass text-xs"></i>
+             <span className="text-[10px] font-black uppercase tracking-widest hidden md:inline">Search</span>
+             <kbd className="text-[9px] font-black text-slate-300 border border-slate-200 rounded-md px-1.5 py-0.5 hidden md:inline">⌘K</kbd>
+           </button>
            <div className="min-w-[40px] flex justify-center">
              {syncStatus === 'syncing' && <i className="fa-solid fa-cloud-arrow-up text-indigo-400 animate-bounce"></i>}
-             {syncStatus === 'synced' && <i className="fa-solid fa-check-circle text-emerald-400"></i>}
+             {syncStatus === 'offline' && <i className="fa-solid fa-plug-circle-xmark text-slate-300"></i>}
+             {syncStatus === 'error' && <i className="fa-solid fa-triangle-exclamation text-red-400"></i>}
            </div>
         </div>
       </div>
@@ -307,6 +884,10 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
           { id: 'diary', label: 'Work Diary', icon: 'fa-book-bookmark' },
           { id: 'planner', label: 'Today\'s Plan', icon: 'fa-bolt' },
           { id: 'future', label: 'Future Tasks', icon: 'fa-calendar-plus' },
+          { id: 'calendar', label: 'Calendar', icon: 'fa-calendar-days' },
+          { id: 'board', label: 'Board', icon: 'fa-table-columns' },
+          { id: 'deadlines', label: 'Deadlines', icon: 'fa-flag-checkered' },
+          { id: 'timesheet', label: 'Timesheet', icon: 'fa-table-cells' },
           { id: 'points', label: 'Knowledge', icon: 'fa-lightbulb' },
           { id: 'team', label: 'Workspace', icon: 'fa-users-gear' },
           { id: 'overview', label: 'Stats', icon: 'fa-chart-simple' },
@@ -322,20 +903,47 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
             {activeTab === tab.id && <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-indigo-600 rounded-t-full"></div>}
           </button>
         ))}
+        {savedViews.map(view => (
+          <button
+            key={view.id}
+            onClick={() => setActiveTab(viewTabId(view))}
+            className={`pb-4 text-[10px] font-black uppercase tracking-[0.2em] transition-all whitespace-nowrap relative flex items-center gap-3 ${activeTab === viewTabId(view) ? 'text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+          >
+            <i className="fa-solid fa-filter text-xs"></i>
+            {view.name}
+            {activeTab === viewTabId(view) && <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-indigo-600 rounded-t-full"></div>}
+          </button>
+        ))}
+        <button onClick={() => setEditingView('new')} className="pb-4 text-[10px] font-black uppercase tracking-[0.2em] whitespace-nowrap flex items-center gap-2 text-slate-300 hover:text-indigo-600" title="Save a filtered task list as a tab">
+          <i className="fa-solid fa-plus text-xs"></i> View
+        </button>
       </div>
 
       <div className="min-h-[600px]">
         {activeTab === 'diary' && (
           <div className="space-y-12 animate-in fade-in slide-in-from-bottom-4">
-            <TaskForm onAdd={addTask} onManageCategories={goToWorkspace} teamMembers={teamMembers} categories={categories} defaultStatus={TaskStatus.DONE} />
-            <TaskList tasks={diaryTasks} teamMembers={teamMembers} onUpdateStatus={updateTaskStatus} onUpdateResponsible={()=>{}} onUpdateDuration={updateTaskDuration} onDelete={deleteTask} onMoveTask={moveTask} />
+            <QuickAdd onAdd={addTask} teamMembers={teamMembers} categories={categories} defaultStatus={TaskStatus.DONE} llmSettings={llmSettings} />
+            <TaskForm onAdd={addTask} onManageCategories={goToWorkspace} teamMembers={teamMembers} categories={categories} defaultStatus={TaskStatus.DONE} suggestionIndex={suggestionIndex} llmSettings={llmSettings} />
+            <TaskList tasks={diaryTasks} teamMembers={teamMembers} onUpdateStatus={updateTaskStatus} onUpdateResponsible={()=>{}} onUpdateDuration={updateTaskDuration} onDelete={deleteTask} onMoveTask={moveTask} onEditTask={editTask} onUpdateDueDate={updateTaskDueDate} activeTimer={activeTimer} onStartTimer={startTimer} onPauseTimer={pauseTimer} onStopTimer={stopTimer} series={seriesById} />
+            {savedDiaryReview && (
+              <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-xl font-black text-slate-800 flex items-center gap-3">
+                    <i className="fa-solid fa-wand-magic-sparkles text-indigo-600"></i> Saved Review
+                  </h2>
+                  <button onClick={openDiaryReview} className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">Open in AI Review</button>
+                </div>
+                <p className="text-sm font-medium text-slate-600 leading-relaxed whitespace-pre-line">{sectionsToMarkdown(savedDiaryReview.sections)}</p>
+              </div>
+            )}
           </div>
         )}
 
         {activeTab === 'planner' && (
           <div className="space-y-12 animate-in fade-in slide-in-from-bottom-4">
-            <TaskForm onAdd={addTask} onManageCategories={goToWorkspace} teamMembers={teamMembers} categories={categories} defaultStatus={TaskStatus.TODO} />
-            <TaskList tasks={todayPlannedTasks} teamMembers={teamMembers} onUpdateStatus={updateTaskStatus} onUpdateResponsible={()=>{}} onUpdateDuration={updateTaskDuration} onDelete={deleteTask} onMoveTask={moveTask} />
+            <QuickAdd onAdd={addTask} teamMembers={teamMembers} categories={categories} defaultStatus={TaskStatus.TODO} llmSettings={llmSettings} />
+            <TaskForm onAdd={addTask} onManageCategories={goToWorkspace} teamMembers={teamMembers} categories={categories} defaultStatus={TaskStatus.TODO} suggestionIndex={suggestionIndex} llmSettings={llmSettings} />
+            <TaskList tasks={todayPlannedTasks} teamMembers={teamMembers} onUpdateStatus={updateTaskStatus} onUpdateResponsible={()=>{}} onUpdateDuration={updateTaskDuration} onDelete={deleteTask} onMoveTask={moveTask} onEditTask={editTask} onUpdateDueDate={updateTaskDueDate} activeTimer={activeTimer} onStartTimer={startTimer} onPauseTimer={pauseTimer} onStopTimer={stopTimer} series={seriesById} />
           </div>
         )}
 
@@ -348,11 +956,63 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
                </div>
                <input type="date" value={futureDate} onChange={(e) => setFutureDate(e.target.value)} className="bg-white text-slate-900 px-5 py-2.5 rounded-xl text-xs font-black outline-none border-none shadow-xl" />
             </div>
-            <TaskForm onAdd={addTask} onManageCategories={goToWorkspace} teamMembers={teamMembers} categories={categories} defaultStatus={TaskStatus.TODO} />
-            <TaskList tasks={futurePlannedTasks} teamMembers={teamMembers} onUpdateStatus={updateTaskStatus} onUpdateResponsible={()=>{}} onUpdateDuration={updateTaskDuration} onDelete={deleteTask} onMoveTask={moveTask} />
+            <QuickAdd onAdd={addTask} teamMembers={teamMembers} categories={categories} defaultStatus={TaskStatus.TODO} llmSettings={llmSettings} />
+            <TaskForm onAdd={addTask} onManageCategories={goToWorkspace} teamMembers={teamMembers} categories={categories} defaultStatus={TaskStatus.TODO} suggestionIndex={suggestionIndex} llmSettings={llmSettings} />
+            <TaskList tasks={futurePlannedTasks} teamMembers={teamMembers} onUpdateStatus={updateTaskStatus} onUpdateResponsible={()=>{}} onUpdateDuration={updateTaskDuration} onDelete={deleteTask} onMoveTask={moveTask} onEditTask={editTask} onUpdateDueDate={updateTaskDueDate} activeTimer={activeTimer} onStartTimer={startTimer} onPauseTimer={pauseTimer} onStopTimer={stopTimer} series={seriesById} />
+          </div>
+        )}
+
+        {activeTab === 'calendar' && (
+          <CalendarView tasks={allTasks} today={todayStr} calendar={workCalendar} onOpenDay={openDay} onMoveTask={moveTask} onRangeChange={showCalendarRange} />
+        )}
+
+        {activeTab === 'board' && (
+          <KanbanBoard tasks={allTasks} categories={categories} teamMembers={teamMembers} today={todayStr} onPlaceTask={placeTask} />
+        )}
+
+        {activeTab === 'deadlines' && (
+          <div className="space-y-12 animate-in fade-in slide-in-from-bottom-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+              <div className="bg-red-500 p-8 rounded-[2.5rem] text-white shadow-2xl shadow-red-100">
+                <span className="text-[10px] font-black uppercase text-red-100 tracking-widest block mb-2">Overdue</span>
+                <span className="text-4xl font-black tracking-tighter">{overdueCount}</span>
+              </div>
+              <div className="bg-amber-400 p-8 rounded-[2.5rem] text-slate-900 shadow-2xl shadow-amber-100">
+                <span className="text-[10px] font-black uppercase text-amber-800 tracking-widest block mb-2">Due Within {DUE_SOON_DAYS} Days</span>
+                <span className="text-4xl font-black tracking-tighter">{dueSoonCount}</span>
+              </div>
+              <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm">
+                <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest block mb-2">Open Tasks</span>
+                <span className="text-4xl font-black text-slate-800 tracking-tighter">{deadlineTasks.length}</span>
+              </div>
+            </div>
+            <TaskList tasks={deadlineTasks} teamMembers={teamMembers} onUpdateStatus={updateTaskStatus} onUpdateResponsible={()=>{}} onUpdateDuration={updateTaskDuration} onDelete={deleteTask} onMoveTask={moveTask} onEditTask={editTask} onUpdateDueDate={updateTaskDueDate} activeTimer={activeTimer} onStartTimer={startTimer} onPauseTimer={pauseTimer} onStopTimer={stopTimer} series={seriesById} preserveOrder showPlannedDate />
           </div>
         )}
 
+        {activeView && (
+          <div className="space-y-12 animate-in fade-in slide-in-from-bottom-4">
+            <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm flex items-center justify-between gap-6">
+              <div>
+                <h2 className="text-xl font-black text-slate-800 mb-1 flex items-center gap-3">
+                  <i className="fa-solid fa-filter text-indigo-600"></i> {activeView.name}
+                </h2>
+                <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest ml-9">
+                  {viewTasks.length} task{viewTasks.length === 1 ? '' : 's'} · {activeView.conditions.length} condition{activeView.conditions.length === 1 ? '' : 's'}
+                </p>
+              </div>
+              <button onClick={() => setEditingView(activeView)} className="px-6 py-3 rounded-2xl bg-indigo-50 text-indigo-700 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100">
+                Edit View
+              </button>
+            </div>
+            <TaskList tasks={viewTasks} teamMembers={teamMembers} onUpdateStatus={updateTaskStatus} onUpdateResponsible={()=>{}} onUpdateDuration={updateTaskDuration} onDelete={deleteTask} onMoveTask={moveTask} onEditTask={editTask} onUpdateDueDate={updateTaskDueDate} activeTimer={activeTimer} onStartTimer={startTimer} onPauseTimer={pauseTimer} onStopTimer={stopTimer} series={seriesById} preserveOrder showPlannedDate />
+          </div>
+        )}
+
+        {activeTab === 'timesheet' && (
+          <Timesheet tasks={allTasks} calendar={workCalendar} targetHours={targetHours} onTargetHoursChange={updateTargetHours} />
+        )}
+
         {activeTab === 'points' && (
           <div className="animate-in fade-in space-y-8">
             <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
@@ -417,7 +1077,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
 
               {/* Grouped Knowledge List */}
               <div className="space-y-16">
-                {Object.entries(groupedPoints).map(([module, points]) => (
+                {/* Fix: Explicitly cast entries so each module's points keep their type in JSX mapping */}
+                {(Object.entries(groupedPoints) as [string, ImportantPoint[]][]).map(([module, points]) => (
                   <div key={module} className="animate-in fade-in slide-in-from-top-2">
                     <div className="flex items-center gap-4 mb-8">
                       <div className="h-[1px] flex-1 bg-slate-100"></div>
@@ -437,7 +1098,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
                         </div>
                       ) : (
                         points.map(p => (
-                          <div key={p.id} className="bg-white border border-slate-100 p-8 rounded-[2.5rem] relative group hover:shadow-2xl hover:border-amber-200 transition-all hover:-translate-y-2 flex flex-col h-full shadow-sm">
+                          <div key={p.id} id={`point-${p.id}`} className="bg-white border border-slate-100 p-8 rounded-[2.5rem] relative group hover:shadow-2xl hover:border-amber-200 transition-all hover:-translate-y-2 flex flex-col h-full shadow-sm">
                             <button onClick={() => deletePoint(p.id)} className="absolute top-6 right-6 w-10 h-10 rounded-xl flex items-center justify-center text-slate-200 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all">
                               <i className="fa-solid fa-trash-can text-sm"></i>
                             </button>
@@ -577,6 +1238,24 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
                </div>
              </div>
 
+             <WorkCalendarSettings calendar={workCalendar} onChange={updateWorkCalendar} />
+             <AiProviderSettings settings={llmSettings} onChange={updateLlmSettings} />
+
+             <TaskImporter categories={categories} onImport={importTasks} />
+
+             <CalendarSync
+               tasks={allTasks}
+               categories={categories}
+               isGuest={user.isGuest}
+               feedUrl={feedToken ? apiService.calendarFeedUrl(user.id, feedToken) : null}
+               feedError={feedError}
+               onImport={importCalendar}
+               onEnableFeed={enableCalendarFeed}
+               onDisableFeed={disableCalendarFeed}
+             />
+
+             <BackupPanel workspace={workspaceRef.current} onImport={ws => applyWorkspace(withWorkspaceDefaults(ws))} />
+
              <div className="bg-slate-900 p-10 rounded-[2.5rem] text-white shadow-xl">
                <h2 className="text-xl font-black mb-2 flex items-center gap-3">
                  <i className="fa-solid fa-database text-indigo-400"></i> Database Schema Requirement
@@ -584,11 +1263,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
                <p className="text-[10px] font-black uppercase text-indigo-300 tracking-widest mb-6 ml-9 opacity-80">Final updates for categorized knowledge support.</p>
                
                <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 font-mono text-[10px] leading-relaxed text-emerald-400 overflow-x-auto">
-                 <p className="mb-2">-- Core Infrastructure Update</p>
-                 <p>CREATE TABLE IF NOT EXISTS knowledge_modules (id BIGSERIAL PRIMARY KEY, user_id UUID REFERENCES auth.users(id), name TEXT);</p>
-                 <p className="mt-4 mb-2">-- Content Categorization & Hints Update</p>
-                 <p>ALTER TABLE important_points ADD COLUMN IF NOT EXISTS module TEXT DEFAULT 'General';</p>
-                 <p>ALTER TABLE important_points ADD COLUMN IF NOT EXISTS note TEXT;</p>
+                 {SCHEMA_REQUIREMENTS.map((section, i) => (
+                   <div key={section.title} className={i > 0 ? 'mt-4' : ''}>
+                     <p className="mb-2">-- {section.title}</p>
+                     {section.statements.map(sql => <p key={sql} className="whitespace-pre-wrap">{sql}</p>)}
+                   </div>
+                 ))}
                </div>
              </div>
 
@@ -614,19 +1294,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
         )}
 
         {activeTab === 'overview' && (
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-8 animate-in fade-in">
-             <div className="bg-white p-12 rounded-[3rem] border border-slate-200 text-center shadow-sm">
-                <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest block mb-4">Completed Logs</span>
-                <span className="text-6xl font-black text-slate-800 tracking-tighter">{completedLogsCount}</span>
-             </div>
-             <div className="bg-indigo-600 p-12 rounded-[3rem] text-center shadow-2xl shadow-indigo-100 border border-indigo-500">
-                <span className="text-[10px] font-black uppercase text-indigo-200 tracking-widest block mb-4">Open Commitments</span>
-                <span className="text-6xl font-black text-white tracking-tighter">{openCommitmentsCount}</span>
-             </div>
-             <div className="bg-slate-900 p-12 rounded-[3rem] text-center shadow-sm">
-                <span className="text-[10px] font-black uppercase text-indigo-400 tracking-widest block mb-4">Logged Hours</span>
-                <span className="text-6xl font-black text-white tracking-tighter">{totalHoursLogged}h</span>
-             </div>
+          <div className="space-y-10 animate-in fade-in">
+            <AnalyticsDashboard tasks={allTasks} />
+            <SlippageReport tasks={allTasks} />
           </div>
         )}
 
@@ -635,14 +1305,27 @@ const Dashboard: React.FC<DashboardProps> = ({ user, initialData }) => {
              <div className="flex items-center justify-between mb-12">
                <h2 className="text-2xl font-black text-slate-800 flex items-center gap-5">
                  <div className="w-14 h-14 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center shadow-sm"><i className="fa-solid fa-wand-magic-sparkles"></i></div>
-                 AI Review
+                 <span>
+                   AI Review
+                   <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">{providerLabel(llmSettings)}</span>
+                 </span>
                </h2>
-               <button onClick={handleGenerateSummary} disabled={isGenerating || diaryTasks.length === 0} className="bg-slate-900 text-white px-8 py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest hover:bg-indigo-600 disabled:opacity-30 flex items-center gap-3">
+               <button onClick={handleGenerateSummary} disabled={isGenerating || (reportTemplate === 'daily' && buildDaySource(allTasks, diaryDate).tasks.length === 0)} className="bg-slate-900 text-white px-8 py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest hover:bg-indigo-600 disabled:opacity-30 flex items-center gap-3">
                  {isGenerating ? <i className="fa-solid fa-circle-notch fa-spin"></i> : <><i className="fa-solid fa-bolt"></i> Generate</>}
                </button>
              </div>
-             {aiSummary ? (
-               <div className="prose prose-slate max-w-none text-slate-600 border-l-8 border-indigo-100 pl-10 whitespace-pre-wrap">{aiSummary}</div>
+             <ReportRangePicker template={reportTemplate} preset={reportPreset} range={reportRange} onChange={changeReportRange} />
+             {reportError && (
+               <div className="mb-8 p-4 bg-red-50 border border-red-100 rounded-2xl text-xs font-bold text-red-600">{reportError}</div>
+             )}
+             {openVersion ? (
+               <>
+                 <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-6">
+                   Saved for {formatAppDate(reportDate)} · {new Date(openVersion.createdAt).toLocaleString()}
+                 </p>
+                 <SummaryEditor sections={openVersion.sections} onChange={updateOpenSections} onRegenerate={handleRegenerateSection} regenerating={regeneratingSection} />
+                 <SummaryHistory versions={reportVersions} currentId={openVersion.id} onOpen={setOpenVersionId} />
+               </>
              ) : (
                <div className="text-center py-24 text-slate-300 font-black uppercase text-xs tracking-[0.4em]">Waiting for activity logs</div>
              )}
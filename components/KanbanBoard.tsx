@@ -0,0 +1,164 @@
+
+import React, { useState, useMemo } from 'react';
+import { Task, TaskStatus, TaskPriority } from '../types';
+import { formatAppDate } from '../services/dateFormat';
+import { BOARD_COLUMNS, BoardFilters, EMPTY_BOARD_FILTERS, buildBoard, sortOrderBetween } from '../services/boardService';
+import { dueState } from '../services/deadlineService';
+
+interface KanbanBoardProps {
+  tasks: Task[];
+  categories: string[];
+  teamMembers: string[];
+  today: string;
+  onPlaceTask: (id: string, status: TaskStatus, sortOrder: number) => void;
+}
+
+const COLUMN_ACCENTS: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: 'bg-slate-400',
+  [TaskStatus.IN_PROGRESS]: 'bg-amber-400',
+  [TaskStatus.DONE]: 'bg-emerald-500'
+};
+
+const PRIORITY_DOTS: Record<TaskPriority, string> = {
+  [TaskPriority.HIGH]: 'bg-red-500',
+  [TaskPriority.MEDIUM]: 'bg-amber-400',
+  [TaskPriority.LOW]: 'bg-slate-300'
+};
+
+const SELECT_CLASS = 'px-4 py-2.5 rounded-xl bg-slate-50 border border-slate-100 outline-none text-[10px] font-black uppercase tracking-widest text-slate-600';
+
+interface DropTarget {
+  status: TaskStatus;
+  index: number; // Position among the column's cards, not counting the one being dragged
+}
+
+const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, categories, teamMembers, today, onPlaceTask }) => {
+  const [filters, setFilters] = useState<BoardFilters>(EMPTY_BOARD_FILTERS);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const board = useMemo(() => buildBoard(tasks, filters), [tasks, filters]);
+  const isFiltered = Object.values(filters).some(Boolean);
+  const setFilter = <K extends keyof BoardFilters>(key: K, value: BoardFilters[K]) => setFilters(prev => ({ ...prev, [key]: value }));
+
+  const endDrag = () => {
+    setDragId(null);
+    setDropTarget(null);
+  };
+
+  const hoverCard = (e: React.DragEvent, status: TaskStatus, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const below = e.clientY > rect.top + rect.height / 2;
+    setDropTarget({ status, index: index + (below ? 1 : 0) });
+  };
+
+  const hoverColumn = (e: React.DragEvent, status: TaskStatus) => {
+    e.preventDefault();
+    if (dropTarget?.status !== status) setDropTarget({ status, index: board[status].filter(t => t.id !== dragId).length });
+  };
+
+  const drop = (e: React.DragEvent, status: TaskStatus) => {
+    e.preventDefault();
+    const id = dragId || e.dataTransfer.getData('text/plain');
+    if (id) {
+      const column = board[status].filter(t => t.id !== id);
+      const index = dropTarget?.status === status ? dropTarget.index : column.length;
+      onPlaceTask(id, status, sortOrderBetween(column[index - 1], column[index]));
+    }
+    endDrag();
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4">
+      <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm flex flex-wrap items-center gap-3">
+        <i className="fa-solid fa-filter text-slate-300 ml-2 mr-1"></i>
+        <select value={filters.category} onChange={(e) => setFilter('category', e.target.value)} className={SELECT_CLASS}>
+          <option value="">All Categories</option>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <select value={filters.priority} onChange={(e) => setFilter('priority', e.target.value as TaskPriority | '')} className={SELECT_CLASS}>
+          <option value="">All Priorities</option>
+          {Object.values(TaskPriority).map(p => <option key={p} value={p}>{p}</option>)}
+        </select>
+        <select value={filters.blocker} onChange={(e) => setFilter('blocker', e.target.value)} className={SELECT_CLASS}>
+          <option value="">Anyone</option>
+          {teamMembers.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <div className="flex items-center gap-2">
+          <input type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => setFilter('from', e.target.value)} className={SELECT_CLASS} />
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">to</span>
+          <input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => setFilter('to', e.target.value)} className={SELECT_CLASS} />
+        </div>
+        {isFiltered && (
+          <button onClick={() => setFilters(EMPTY_BOARD_FILTERS)} className="ml-auto text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">Clear Filters</button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {BOARD_COLUMNS.map(({ status, label }) => {
+          const cards = board[status];
+          const visible = cards.filter(t => t.id !== dragId);
+          const isTarget = dropTarget?.status === status;
+          const placeholder = <div className="h-16 rounded-2xl border-2 border-dashed border-indigo-200 bg-indigo-50/50"></div>;
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => hoverColumn(e, status)}
+              onDrop={(e) => drop(e, status)}
+              className={`bg-slate-50 p-5 rounded-[2.5rem] border transition-all min-h-[400px] ${isTarget ? 'border-indigo-200' : 'border-slate-100'}`}
+            >
+              <div className="flex items-center justify-between px-3 mb-5">
+                <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-3">
+                  <span className={`w-2 h-2 rounded-full ${COLUMN_ACCENTS[status]}`}></span> {label}
+                </h3>
+                <span className="text-[10px] font-black text-slate-300">{cards.length}</span>
+              </div>
+              <div className="space-y-3">
+                {cards.map(task => {
+                  const due = dueState(task, today);
+                  const isDragged = task.id === dragId;
+                  // The dragged card stays mounted (removing it would cancel the drag) but takes no slot.
+                  const index = visible.indexOf(task);
+                  return (
+                    <React.Fragment key={task.id}>
+                      {isTarget && !isDragged && dropTarget!.index === index && placeholder}
+                      <div
+                        draggable
+                        onDragStart={(e) => { e.dataTransfer.setData('text/plain', task.id); e.dataTransfer.effectAllowed = 'move'; setDragId(task.id); }}
+                        onDragEnd={endDrag}
+                        onDragOver={isDragged ? undefined : (e) => hoverCard(e, status, index)}
+                        className={`bg-white p-5 rounded-2xl border border-slate-200 shadow-sm cursor-grab active:cursor-grabbing hover:border-indigo-200 transition-all ${isDragged ? 'opacity-40' : ''}`}
+                      >
+                        <div className="flex items-start gap-3">
+                          <span className={`w-2 h-2 rounded-full mt-1.5 shrink-0 ${PRIORITY_DOTS[task.priority]}`} title={`${task.priority} priority`}></span>
+                          <span className={`text-sm font-bold leading-snug ${task.status === TaskStatus.DONE ? 'text-slate-400 line-through' : 'text-slate-800'}`}>{task.title}</span>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 mt-3 text-[9px] font-black uppercase tracking-widest">
+                          <span className="px-2 py-1 rounded-lg bg-indigo-50 text-indigo-600">{task.category}</span>
+                          <span className="text-slate-400"><i className="fa-regular fa-calendar mr-1"></i>{formatAppDate(task.logDate)}</span>
+                          {task.duration ? <span className="text-slate-400"><i className="fa-regular fa-clock mr-1"></i>{task.duration}h</span> : null}
+                          {task.blocker && task.blocker !== 'Self' && <span className="px-2 py-1 rounded-lg bg-orange-50 text-orange-600"><i className="fa-solid fa-user-clock mr-1"></i>{task.blocker}</span>}
+                          {due && due !== 'later' && <span className={`px-2 py-1 rounded-lg ${due === 'overdue' ? 'bg-red-500 text-white' : 'bg-amber-100 text-amber-700'}`}>Due {formatAppDate(task.dueDate!)}</span>}
+                        </div>
+                      </div>
+                    </React.Fragment>
+                  );
+                })}
+                {isTarget && dropTarget!.index >= visible.length && placeholder}
+                {cards.length === 0 && !isTarget && (
+                  <div className="py-16 text-center text-[10px] font-black uppercase tracking-[0.3em] text-slate-300">
+                    {isFiltered ? 'No matching tasks' : 'Drop tasks here'}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default KanbanBoard;
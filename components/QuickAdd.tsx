@@ -0,0 +1,121 @@
+
+import React, { useState, useMemo } from 'react';
+import { Task, TaskStatus, TaskPriority, LlmSettings } from '../types';
+import { formatAppDate } from '../services/dateFormat';
+import { parseQuickAdd, parseQuickAddWithAi, QuickAddDraft } from '../services/quickAddParser';
+import { getProvider } from '../services/llmProviders';
+
+interface QuickAddProps {
+  categories: string[];
+  teamMembers: string[];
+  defaultStatus: TaskStatus;
+  llmSettings: LlmSettings;
+  onAdd: (task: Omit<Task, 'id' | 'createdAt' | 'logDate'>, logDate?: string) => void;
+}
+
+const PRIORITY_CHIP: Record<TaskPriority, string> = {
+  [TaskPriority.HIGH]: 'bg-red-50 text-red-600 border-red-100',
+  [TaskPriority.MEDIUM]: 'bg-amber-50 text-amber-600 border-amber-100',
+  [TaskPriority.LOW]: 'bg-slate-50 text-slate-500 border-slate-100'
+};
+
+const Chip: React.FC<{ icon: string; className?: string; children: React.ReactNode }> = ({ icon, className = 'bg-slate-50 text-slate-600 border-slate-100', children }) => (
+  <span className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-[10px] font-black uppercase tracking-widest ${className}`}>
+    <i className={`fa-solid ${icon} text-[9px]`}></i> {children}
+  </span>
+);
+
+const QuickAdd: React.FC<QuickAddProps> = ({ categories, teamMembers, defaultStatus, llmSettings, onAdd }) => {
+  const todayStr = new Date().toISOString().split('T')[0];
+  const [input, setInput] = useState('');
+  const [aiDraft, setAiDraft] = useState<QuickAddDraft | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [error, setError] = useState('');
+
+  const context = useMemo(() => ({ today: todayStr, categories, teamMembers }), [todayStr, categories, teamMembers]);
+  const localDraft = useMemo(() => parseQuickAdd(input, context), [input, context]);
+  const draft = aiDraft || localDraft;
+
+  const changeInput = (value: string) => {
+    setInput(value);
+    setAiDraft(null);
+    setError('');
+  };
+
+  const parseWithAi = async () => {
+    if (!input.trim()) return;
+    setIsParsing(true);
+    setError('');
+    try {
+      setAiDraft(await parseQuickAddWithAi(input, context, llmSettings));
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.title) return;
+    onAdd({
+      title: draft.title,
+      description: '',
+      status: defaultStatus,
+      priority: draft.priority || TaskPriority.MEDIUM,
+      category: draft.category || categories[0] || 'Meeting',
+      blocker: draft.blocker || (teamMembers.includes('Self') ? 'Self' : undefined),
+      duration: draft.duration,
+      dueDate: draft.dueDate
+    }, draft.logDate);
+    changeInput('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-4 rounded-3xl shadow-sm border border-slate-200 transition-all focus-within:border-indigo-200">
+      <div className="flex items-center gap-3">
+        <i className="fa-solid fa-bolt text-indigo-500 ml-3"></i>
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => changeInput(e.target.value)}
+          placeholder='Quick add: "Fix login bug 2h high #Bug Fix blocked by Ravi tomorrow"'
+          className="flex-1 px-2 py-3 bg-transparent outline-none font-bold text-slate-700 placeholder:text-slate-300 placeholder:font-medium"
+        />
+        {getProvider(llmSettings).usesModel && (
+          <button
+            type="button"
+            onClick={parseWithAi}
+            disabled={!input.trim() || isParsing}
+            title="Read this entry with the AI provider"
+            className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all disabled:opacity-30 ${aiDraft ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'}`}
+          >
+            <i className={`fa-solid ${isParsing ? 'fa-circle-notch fa-spin' : 'fa-wand-magic-sparkles'} text-xs`}></i>
+          </button>
+        )}
+        <button type="submit" disabled={!draft.title} className="bg-slate-900 hover:bg-indigo-600 disabled:opacity-30 text-white px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest transition-all active:scale-95">
+          Add
+        </button>
+      </div>
+
+      {input.trim() && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 px-3 pb-1 animate-in fade-in">
+          <span className="text-sm font-black text-slate-800 mr-1">{draft.title || <span className="text-slate-300">No title</span>}</span>
+          {draft.duration !== undefined && <Chip icon="fa-clock">{draft.duration}h</Chip>}
+          {draft.priority && <Chip icon="fa-signal" className={PRIORITY_CHIP[draft.priority]}>{draft.priority}</Chip>}
+          <Chip icon="fa-tag" className={draft.category ? undefined : 'bg-white text-slate-300 border-slate-100'}>{draft.category || categories[0]}</Chip>
+          {draft.blocker && <Chip icon="fa-user-clock" className="bg-orange-50 text-orange-600 border-orange-100">{draft.blocker}</Chip>}
+          {draft.logDate && <Chip icon="fa-calendar-day" className="bg-indigo-50 text-indigo-600 border-indigo-100">{formatAppDate(draft.logDate)}</Chip>}
+          {draft.dueDate && <Chip icon="fa-flag-checkered" className="bg-red-50 text-red-600 border-red-100">Due {formatAppDate(draft.dueDate)}</Chip>}
+          {draft.unknown.map(token => (
+            <Chip key={token} icon="fa-circle-question" className="bg-white text-slate-400 border-dashed border-slate-200">Unknown {token}</Chip>
+          ))}
+          {aiDraft && <span className="text-[9px] font-black uppercase tracking-widest text-indigo-400 ml-auto">Read by AI</span>}
+        </div>
+      )}
+      {error && <p className="mt-3 px-3 text-xs font-bold text-red-600">{error}</p>}
+    </form>
+  );
+};
+
+export default QuickAdd;
@@ -0,0 +1,72 @@
+
+import React from 'react';
+import { DateRange, ReportTemplate } from '../types';
+import { REPORT_TEMPLATES, RANGE_PRESETS, RangePreset, presetRange } from '../services/reportService';
+
+interface ReportRangePickerProps {
+  template: ReportTemplate;
+  preset: RangePreset;
+  range: DateRange;
+  onChange: (template: ReportTemplate, preset: RangePreset, range: DateRange) => void;
+}
+
+const ReportRangePicker: React.FC<ReportRangePickerProps> = ({ template, preset, range, onChange }) => {
+  const todayStr = new Date().toISOString().split('T')[0];
+  const isDaily = template === 'daily';
+
+  const selectTemplate = (id: ReportTemplate) => {
+    const next = REPORT_TEMPLATES.find(t => t.id === id)!;
+    onChange(id, next.preset, next.preset === 'custom' ? range : presetRange(next.preset, todayStr));
+  };
+
+  const selectPreset = (id: RangePreset) => {
+    onChange(template, id, id === 'custom' ? range : presetRange(id, todayStr));
+  };
+
+  return (
+    <div className="space-y-6 mb-12">
+      <div className="flex flex-wrap gap-2">
+        {REPORT_TEMPLATES.map(t => (
+          <button
+            key={t.id}
+            onClick={() => selectTemplate(t.id)}
+            className={`px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border ${template === t.id ? 'bg-indigo-600 text-white border-indigo-600 shadow-lg shadow-indigo-100' : 'bg-slate-50 text-slate-400 border-slate-100 hover:text-slate-600'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {isDaily ? (
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Uses the entries of the date open in the Work Diary.</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={preset}
+            onChange={(e) => selectPreset(e.target.value as RangePreset)}
+            className="px-4 py-2.5 rounded-xl bg-slate-50 border border-slate-100 outline-none text-xs font-black text-slate-600"
+          >
+            {RANGE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => e.target.value && onChange(template, 'custom', { ...range, from: e.target.value })}
+            className="px-4 py-2 rounded-xl bg-slate-50 border border-slate-100 outline-none text-xs font-black text-slate-600"
+          />
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">to</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => e.target.value && onChange(template, 'custom', { ...range, to: e.target.value })}
+            className="px-4 py-2 rounded-xl bg-slate-50 border border-slate-100 outline-none text-xs font-black text-slate-600"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportRangePicker;
@@ -0,0 +1,69 @@
+
+import React, { useState, useEffect } from 'react';
+import { Task } from '../types';
+import { formatAppDate } from '../services/dateFormat';
+
+interface RolloverBannerProps {
+  tasks: Task[];
+  targetDate: string;
+  onCarryOver: (ids: string[]) => void;
+  onDismiss: () => void;
+}
+
+const RolloverBanner: React.FC<RolloverBannerProps> = ({ tasks, targetDate, onCarryOver, onDismiss }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Everything is selected by default; newly found tasks join the selection.
+  useEffect(() => {
+    setSelected(new Set(tasks.map(t => t.id)));
+  }, [tasks.map(t => t.id).join(',')]);
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 p-8 rounded-[2.5rem] mb-8 animate-in fade-in slide-in-from-top-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 mb-6">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-white text-amber-500 rounded-2xl flex items-center justify-center shadow-sm">
+            <i className="fa-solid fa-forward"></i>
+          </div>
+          <div>
+            <h2 className="text-lg font-black text-slate-800">{tasks.length} Unfinished Task{tasks.length === 1 ? '' : 's'} From Earlier Days</h2>
+            <span className="text-[10px] font-black uppercase text-amber-600 tracking-widest">Carry forward to {formatAppDate(targetDate)}</span>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={onDismiss} className="px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-white transition-all">
+            Not Today
+          </button>
+          <button
+            onClick={() => onCarryOver(Array.from(selected))}
+            disabled={selected.size === 0}
+            className="bg-slate-900 hover:bg-amber-500 disabled:opacity-40 text-white px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl transition-all active:scale-95"
+          >
+            Carry Over {selected.size}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {tasks.map(task => (
+          <label key={task.id} className="flex items-center gap-4 bg-white px-5 py-3 rounded-2xl border border-amber-100 cursor-pointer">
+            <input type="checkbox" checked={selected.has(task.id)} onChange={() => toggle(task.id)} className="accent-amber-500" />
+            <span className="flex-1 text-sm font-bold text-slate-700">{task.title}</span>
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{formatAppDate(task.logDate)}</span>
+            {(task.postponements?.length || 0) > 0 && (
+              <span className="text-[9px] font-black uppercase tracking-widest text-amber-600">Slipped {task.postponements!.length}×</span>
+            )}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RolloverBanner;
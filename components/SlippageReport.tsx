@@ -0,0 +1,71 @@
+
+import React, { useMemo } from 'react';
+import { Task } from '../types';
+import { buildSlippageReport } from '../services/slippageService';
+
+interface SlippageReportProps {
+  tasks: Task[];
+}
+
+const SlippageReport: React.FC<SlippageReportProps> = ({ tasks }) => {
+  const report = useMemo(() => buildSlippageReport(tasks), [tasks]);
+  const hasHistory = report.mostPostponed.length > 0;
+
+  return (
+    <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+      <h2 className="text-xl font-black text-slate-800 mb-2 flex items-center gap-3">
+        <i className="fa-solid fa-forward text-amber-500"></i> Slippage Report
+      </h2>
+      <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-8 ml-9">Where plans keep moving, and why.</p>
+
+      {!hasHistory ? (
+        <div className="text-center py-16 text-slate-300 font-black uppercase text-xs tracking-[0.4em]">No rescheduled tasks yet</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div>
+            <h3 className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-4">Most Postponed</h3>
+            <ul className="space-y-3">
+              {report.mostPostponed.map(({ task, count, daysSlipped }) => (
+                <li key={task.id} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                  <p className="text-sm font-bold text-slate-700 leading-tight">{task.title}</p>
+                  <span className="text-[9px] font-black uppercase tracking-widest text-amber-600">
+                    {count}× · {daysSlipped} day{daysSlipped === 1 ? '' : 's'} slipped
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <h3 className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-4">Average Delay by Category</h3>
+            <ul className="space-y-3">
+              {report.delayByCategory.map(row => (
+                <li key={row.category} className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-600">{row.category}</span>
+                  <span className="text-sm font-black text-slate-800">{row.averageDays}d <span className="text-[9px] text-slate-400">/ {row.moves} moves</span></span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <h3 className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-4">Top Reasons</h3>
+            <ul className="space-y-3">
+              {report.topReasons.map(row => (
+                <li key={row.reason} className="flex items-center justify-between gap-4 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                  <span className="text-xs font-bold text-slate-600 italic">{row.reason}</span>
+                  <span className="text-sm font-black text-slate-800">{row.count}</span>
+                </li>
+              ))}
+              {report.topReasons.length === 0 && (
+                <li className="text-[10px] font-black uppercase text-slate-300 tracking-widest">No reasons given</li>
+              )}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SlippageReport;
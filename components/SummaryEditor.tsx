@@ -0,0 +1,59 @@
+
+import React, { useState } from 'react';
+import { SummarySection, SummarySectionId } from '../types';
+import { sectionsToMarkdown } from '../services/aiReportService';
+
+interface SummaryEditorProps {
+  sections: SummarySection[];
+  onChange: (sections: SummarySection[]) => void;
+  onRegenerate: (id: SummarySectionId) => void;
+  regenerating: SummarySectionId | null;
+}
+
+const SummaryEditor: React.FC<SummaryEditorProps> = ({ sections, onChange, onRegenerate, regenerating }) => {
+  const [copied, setCopied] = useState(false);
+
+  const updateSection = (id: SummarySectionId, content: string) =>
+    onChange(sections.map(s => s.id === id ? { ...s, content } : s));
+
+  const copyReport = async () => {
+    await navigator.clipboard.writeText(sectionsToMarkdown(sections));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-6">
+      {sections.map(section => (
+        <div key={section.id} className="border-l-8 border-indigo-100 pl-8">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-500">{section.title}</h3>
+            <button
+              onClick={() => onRegenerate(section.id)}
+              disabled={regenerating !== null}
+              title="Regenerate this section"
+              className="w-8 h-8 rounded-lg text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-40 transition-all flex items-center justify-center"
+            >
+              <i className={`fa-solid fa-rotate text-xs ${regenerating === section.id ? 'fa-spin' : ''}`}></i>
+            </button>
+          </div>
+          <textarea
+            value={section.content}
+            onChange={(e) => updateSection(section.id, e.target.value)}
+            rows={Math.max(2, section.content.split('\n').length + 1)}
+            className="w-full text-sm font-medium text-slate-600 leading-relaxed bg-transparent hover:bg-slate-50 focus:bg-slate-50 rounded-xl p-3 -ml-3 outline-none resize-none transition-all"
+          />
+        </div>
+      ))}
+
+      <button
+        onClick={copyReport}
+        className="w-full bg-slate-900 hover:bg-indigo-600 text-white font-black uppercase tracking-widest text-[11px] py-4 rounded-2xl shadow-xl transition-all active:scale-95 flex items-center justify-center gap-3"
+      >
+        <i className={`fa-solid ${copied ? 'fa-check' : 'fa-copy'}`}></i> {copied ? 'Copied' : 'Copy Report'}
+      </button>
+    </div>
+  );
+};
+
+export default SummaryEditor;
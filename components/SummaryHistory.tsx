@@ -0,0 +1,79 @@
+
+import React, { useState } from 'react';
+import { SummaryVersion } from '../types';
+import { formatAppDate } from '../services/dateFormat';
+import { REPORT_TEMPLATES } from '../services/reportService';
+
+interface SummaryHistoryProps {
+  versions: SummaryVersion[];
+  currentId: string | null;
+  onOpen: (id: string) => void;
+}
+
+const versionLabel = (v: SummaryVersion) => {
+  const time = new Date(v.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const template = REPORT_TEMPLATES.find(t => t.id === v.template)?.label || v.template;
+  const range = v.range && v.range.from !== v.range.to ? ` · ${formatAppDate(v.range.from)} – ${formatAppDate(v.range.to)}` : '';
+  return `${template} · ${time}${range}${v.generatedBy ? ` · ${v.generatedBy}` : ''}`;
+};
+
+const SummaryHistory: React.FC<SummaryHistoryProps> = ({ versions, currentId, onOpen }) => {
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const current = versions.find(v => v.id === currentId);
+  const compared = versions.find(v => v.id === compareId && v.id !== currentId);
+
+  if (versions.length < 2) return null;
+
+  return (
+    <div className="mt-12 pt-10 border-t border-slate-100">
+      <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-4 flex items-center gap-2">
+        <i className="fa-solid fa-clock-rotate-left"></i> Saved Versions ({versions.length})
+      </h3>
+      <div className="space-y-2">
+        {[...versions].reverse().map((v, i) => (
+          <div key={v.id} className={`flex items-center justify-between gap-4 px-4 py-3 rounded-xl border ${v.id === currentId ? 'bg-indigo-50 border-indigo-100' : 'bg-slate-50 border-slate-100'}`}>
+            <button onClick={() => onOpen(v.id)} className="text-left text-xs font-bold text-slate-600 hover:text-indigo-600 flex-1">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 mr-2">v{versions.length - i}</span>
+              {versionLabel(v)}
+            </button>
+            {v.id !== currentId && (
+              <button
+                onClick={() => setCompareId(compareId === v.id ? null : v.id)}
+                className={`text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg transition-all ${compareId === v.id ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-slate-700'}`}
+              >
+                {compareId === v.id ? 'Comparing' : 'Compare'}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {current && compared && (
+        <div className="mt-8 space-y-6 animate-in fade-in">
+          <div className="grid grid-cols-2 gap-6 text-[9px] font-black uppercase tracking-widest text-slate-400">
+            <span>{versionLabel(compared)}</span>
+            <span className="text-indigo-500">{versionLabel(current)} (open)</span>
+          </div>
+          {current.sections.map(section => {
+            const other = compared.sections.find(s => s.id === section.id);
+            const changed = (other?.content || '') !== section.content;
+            return (
+              <div key={section.id}>
+                <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2 flex items-center gap-2">
+                  {section.title}
+                  {!changed && <span className="text-[8px] text-slate-300">Unchanged</span>}
+                </h4>
+                <div className="grid grid-cols-2 gap-6">
+                  <p className={`text-xs font-medium leading-relaxed whitespace-pre-line rounded-xl p-3 ${changed ? 'bg-red-50 text-slate-600' : 'text-slate-400'}`}>{other?.content || '—'}</p>
+                  <p className={`text-xs font-medium leading-relaxed whitespace-pre-line rounded-xl p-3 ${changed ? 'bg-emerald-50 text-slate-600' : 'text-slate-400'}`}>{section.content}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SummaryHistory;
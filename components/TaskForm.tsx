@@ -1,6 +1,8 @@
 
-import React, { useState, useEffect } from 'react';
-import { TaskStatus, TaskPriority, Task } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { TaskStatus, TaskPriority, Task, RecurrenceFrequency, RecurrenceRule, LlmSettings } from '../types';
+import { suggestFromHistory, suggestWithAi, SuggestionIndex, TaskSuggestion } from '../services/suggestionService';
+import { getProvider } from '../services/llmProviders';
 
 interface TaskFormProps {
   onAdd: (task: Omit<Task, 'id' | 'createdAt' | 'logDate'>) => void;
@@ -8,9 +10,14 @@ interface TaskFormProps {
   teamMembers: string[];
   categories: string[];
   defaultStatus?: TaskStatus;
+  suggestionIndex?: SuggestionIndex;
+  llmSettings?: LlmSettings;
 }
 
-const TaskForm: React.FC<TaskFormProps> = ({ onAdd, onManageCategories, teamMembers, categories, defaultStatus = TaskStatus.DONE }) => {
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const TaskForm: React.FC<TaskFormProps> = ({ onAdd, onManageCategories, teamMembers, categories, defaultStatus = TaskStatus.DONE, suggestionIndex, llmSettings }) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [notes, setNotes] = useState(''); // New state for task notes
@@ -19,6 +26,65 @@ const TaskForm: React.FC<TaskFormProps> = ({ onAdd, onManageCategories, teamMemb
   const [blocker, setBlocker] = useState('Self');
   const [duration, setDuration] = useState<string>('');
   const [unit, setUnit] = useState<'hrs' | 'mins'>('hrs');
+  const [dueDate, setDueDate] = useState('');
+  const [repeat, setRepeat] = useState<'none' | RecurrenceFrequency>('none');
+  const [repeatInterval, setRepeatInterval] = useState('1');
+  const [repeatWeekdays, setRepeatWeekdays] = useState<number[]>([]);
+  const [monthlyWeek, setMonthlyWeek] = useState('');
+  const [monthlyWeekday, setMonthlyWeekday] = useState('');
+  const [repeatEnd, setRepeatEnd] = useState<'never' | 'date' | 'count'>('never');
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [repeatCount, setRepeatCount] = useState('10');
+  const [aiSuggestion, setAiSuggestion] = useState<TaskSuggestion | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestError, setSuggestError] = useState('');
+
+  const suggestionText = `${title} ${notes}`;
+  const historySuggestion = useMemo(
+    () => suggestionIndex && title.trim().length >= 3 ? suggestFromHistory(suggestionIndex, suggestionText) : null,
+    [suggestionIndex, suggestionText, title]
+  );
+  const suggestion = aiSuggestion || historySuggestion;
+  const currentHours = duration ? (unit === 'mins' ? parseFloat(duration) / 60 : parseFloat(duration)) : undefined;
+  // Only the fields that would actually change are offered.
+  const offered = suggestion ? {
+    category: suggestion.category && suggestion.category !== category && categories.includes(suggestion.category) ? suggestion.category : undefined,
+    priority: suggestion.priority && suggestion.priority !== priority ? suggestion.priority : undefined,
+    duration: suggestion.duration !== undefined && suggestion.duration !== currentHours ? suggestion.duration : undefined
+  } : null;
+  const hasOffer = !!offered && (offered.category !== undefined || offered.priority !== undefined || offered.duration !== undefined);
+
+  const acceptSuggestion = () => {
+    if (!offered) return;
+    if (offered.category) setCategory(offered.category);
+    if (offered.priority) setPriority(offered.priority);
+    if (offered.duration !== undefined) {
+      setDuration(String(offered.duration));
+      setUnit('hrs');
+    }
+    setAiSuggestion(null);
+  };
+
+  const askAi = async () => {
+    if (!suggestionIndex || !llmSettings || !title.trim()) return;
+    setIsSuggesting(true);
+    setSuggestError('');
+    try {
+      setAiSuggestion(await suggestWithAi(suggestionIndex, suggestionText, categories, llmSettings));
+    } catch (e: any) {
+      setSuggestError(e.message);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  // Tab in the title or notes field takes the offer; with nothing offered it moves focus as usual.
+  const handleSuggestionKey = (e: React.KeyboardEvent) => {
+    if (e.key === 'Tab' && !e.shiftKey && hasOffer) {
+      e.preventDefault();
+      acceptSuggestion();
+    }
+  };
 
   useEffect(() => {
     if (!teamMembers.includes(blocker)) {
@@ -36,6 +102,19 @@ const TaskForm: React.FC<TaskFormProps> = ({ onAdd, onManageCategories, teamMemb
     e.preventDefault();
     if (!title.trim()) return;
 
+    // Empty weekday / month fields fall back to the series start date.
+    let recurrence: RecurrenceRule | undefined;
+    if (repeat !== 'none') {
+      recurrence = { frequency: repeat };
+      const interval = parseInt(repeatInterval, 10);
+      if (repeat !== 'weekdays' && interval > 1) recurrence.interval = interval;
+      if (repeat === 'weekly' && repeatWeekdays.length > 0) recurrence.weekdays = repeatWeekdays;
+      if (repeat === 'monthly' && monthlyWeek) recurrence.monthlyWeek = parseInt(monthlyWeek, 10);
+      if (repeat === 'monthly' && monthlyWeekday) recurrence.monthlyWeekday = parseInt(monthlyWeekday, 10);
+      if (repeatEnd === 'date' && repeatUntil) recurrence.endDate = repeatUntil;
+      if (repeatEnd === 'count' && parseInt(repeatCount, 10) > 0) recurrence.count = parseInt(repeatCount, 10);
+    }
+
     const numValue = duration ? parseFloat(duration) : undefined;
     const durationInHours = (numValue !== undefined && unit === 'mins') 
       ? Number((numValue / 60).toFixed(2)) 
@@ -50,6 +129,9 @@ const TaskForm: React.FC<TaskFormProps> = ({ onAdd, onManageCategories, teamMemb
       category,
       blocker: blocker || undefined,
       duration: durationInHours,
+      // A fixed due date would be copied onto every occurrence, so series do not take one.
+      dueDate: !recurrence && dueDate ? dueDate : undefined,
+      recurrence,
     });
 
     setTitle('');
@@ -57,8 +139,18 @@ const TaskForm: React.FC<TaskFormProps> = ({ onAdd, onManageCategories, teamMemb
     setNotes('');
     setPriority(TaskPriority.MEDIUM);
     setDuration('');
+    setDueDate('');
     setBlocker(teamMembers.includes('Self') ? 'Self' : (teamMembers[0] || ''));
     setUnit('hrs'); // Reset to default
+    setRepeat('none');
+    setRepeatInterval('1');
+    setRepeatWeekdays([]);
+    setMonthlyWeek('');
+    setMonthlyWeekday('');
+    setRepeatEnd('never');
+    setRepeatUntil('');
+    setAiSuggestion(null);
+    setSuggestError('');
   };
 
   const isPlanner = defaultStatus !== TaskStatus.DONE;
@@ -83,7 +175,8 @@ const TaskForm: React.FC<TaskFormProps> = ({ onAdd, onManageCategories, teamMemb
           <input
             type="text"
             value={title}
-            onChange={(e) => setTitle(e.target.value)}
+            onChange={(e) => { setTitle(e.target.value); setAiSuggestion(null); }}
+            onKeyDown={handleSuggestionKey}
             placeholder={isPlanner ? "Meeting with Manager, Feature dev..." : "Finished API docs, Fixed bug #10..."}
             className="w-full px-4 py-3.5 rounded-2xl bg-slate-50 border border-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300 font-bold text-slate-700"
             required
@@ -135,6 +228,34 @@ const TaskForm: React.FC<TaskFormProps> = ({ onAdd, onManageCategories, teamMemb
           </select>
         </div>
 
+        {(hasOffer || (llmSettings && getProvider(llmSettings).usesModel && title.trim()) || suggestError) && (
+          <div className="md:col-span-4 flex flex-wrap items-center gap-2 -mt-2 animate-in fade-in">
+            {hasOffer && offered && (
+              <button
+                type="button"
+                onClick={acceptSuggestion}
+                title={suggestion!.basis.length ? `Based on: ${suggestion!.basis.join(', ')}` : 'Suggested by the AI provider'}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-indigo-50 border border-indigo-100 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-100 transition-all"
+              >
+                <i className={`fa-solid ${suggestion!.source === 'ai' ? 'fa-wand-magic-sparkles' : 'fa-clock-rotate-left'} text-[9px]`}></i>
+                {[offered.category, offered.priority, offered.duration !== undefined ? `${offered.duration}h` : undefined].filter(Boolean).join(' · ')}
+                <span className="px-1.5 py-0.5 rounded-md bg-white border border-indigo-100 text-[8px] text-indigo-400">Tab</span>
+              </button>
+            )}
+            {llmSettings && getProvider(llmSettings).usesModel && title.trim() && suggestionIndex && (
+              <button
+                type="button"
+                onClick={askAi}
+                disabled={isSuggesting}
+                className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 disabled:opacity-40 transition-colors"
+              >
+                <i className={`fa-solid ${isSuggesting ? 'fa-circle-notch fa-spin' : 'fa-wand-magic-sparkles'} mr-1`}></i> Ask AI
+              </button>
+            )}
+            {suggestError && <span className="text-[10px] font-bold text-red-500">{suggestError}</span>}
+          </div>
+        )}
+
         {/* New Row for Notes and Category */}
         <div className="md:col-span-2 space-y-2">
           <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Strategy / Hints / Context</label>
@@ -143,6 +264,7 @@ const TaskForm: React.FC<TaskFormProps> = ({ onAdd, onManageCategories, teamMemb
             <textarea
               value={notes}
               onChange={(e) => setNotes(e.target.value)}
+              onKeyDown={handleSuggestionKey}
               placeholder="Add specific hints or reminders for this task..."
               rows={1}
               className="w-full pl-11 pr-4 py-3 rounded-2xl bg-slate-50 border border-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-300 font-medium text-slate-600 min-h-[54px]"
@@ -187,12 +309,124 @@ const TaskForm: React.FC<TaskFormProps> = ({ onAdd, onManageCategories, teamMemb
           </select>
         </div>
 
-        <div className="md:col-span-2"></div>
+        {isPlanner && (
+          <div className="space-y-2">
+            <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Due Date</label>
+            <div className="relative">
+              <i className="fa-solid fa-flag-checkered absolute left-4 top-1/2 -translate-y-1/2 text-slate-300"></i>
+              <input
+                type="date"
+                value={repeat === 'none' ? dueDate : ''}
+                onChange={(e) => setDueDate(e.target.value)}
+                disabled={repeat !== 'none'}
+                title={repeat !== 'none' ? 'Recurring tasks do not take a due date' : undefined}
+                className="w-full pl-11 pr-4 py-3.5 rounded-2xl bg-slate-50 border border-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none font-bold text-slate-600 disabled:opacity-40"
+              />
+            </div>
+          </div>
+        )}
+
+        {isPlanner ? (
+          <div className="space-y-2">
+            <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Repeat</label>
+            <select
+              value={repeat}
+              onChange={(e) => setRepeat(e.target.value as 'none' | RecurrenceFrequency)}
+              className="w-full px-4 py-3.5 rounded-2xl bg-slate-50 border border-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none font-bold text-slate-600 appearance-none"
+            >
+              <option value="none">Does not repeat</option>
+              <option value="daily">Daily</option>
+              <option value="weekdays">Every weekday (Mon-Fri)</option>
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly (nth weekday)</option>
+            </select>
+          </div>
+        ) : (
+          <div className="md:col-span-2"></div>
+        )}
+
+        {isPlanner && repeat !== 'none' && (
+          <div className="md:col-span-4 grid grid-cols-1 md:grid-cols-4 gap-6 p-6 bg-indigo-50/40 rounded-[2rem] border border-indigo-100 animate-in slide-in-from-top-3">
+            {repeat !== 'weekdays' && (
+              <div className="space-y-2">
+                <label className="text-[9px] font-black uppercase tracking-widest text-indigo-400 ml-1">Every</label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min="1"
+                    value={repeatInterval}
+                    onChange={(e) => setRepeatInterval(e.target.value)}
+                    className="w-full pl-4 pr-20 py-3 rounded-2xl bg-white border border-indigo-100 outline-none font-black text-slate-700"
+                  />
+                  <span className="absolute right-4 top-1/2 -translate-y-1/2 text-[9px] font-black uppercase text-indigo-400">
+                    {repeat === 'daily' ? 'Day(s)' : repeat === 'weekly' ? 'Week(s)' : 'Month(s)'}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {repeat === 'weekly' && (
+              <div className="md:col-span-2 space-y-2">
+                <label className="text-[9px] font-black uppercase tracking-widest text-indigo-400 ml-1">On Days</label>
+                <div className="flex gap-2">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={day}
+                      type="button"
+                      title={WEEKDAY_NAMES[day]}
+                      onClick={() => setRepeatWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort())}
+                      className={`w-10 h-10 rounded-xl text-[10px] font-black transition-all ${repeatWeekdays.includes(day) ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-100' : 'bg-white text-slate-400 border border-indigo-100'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {repeat === 'monthly' && (
+              <div className="md:col-span-2 space-y-2">
+                <label className="text-[9px] font-black uppercase tracking-widest text-indigo-400 ml-1">On The</label>
+                <div className="flex gap-2">
+                  <select value={monthlyWeek} onChange={(e) => setMonthlyWeek(e.target.value)} className="flex-1 px-4 py-3 rounded-2xl bg-white border border-indigo-100 outline-none font-bold text-slate-600 appearance-none">
+                    <option value="">Same week as start</option>
+                    <option value="1">1st</option>
+                    <option value="2">2nd</option>
+                    <option value="3">3rd</option>
+                    <option value="4">4th</option>
+                    <option value="-1">Last</option>
+                  </select>
+                  <select value={monthlyWeekday} onChange={(e) => setMonthlyWeekday(e.target.value)} className="flex-1 px-4 py-3 rounded-2xl bg-white border border-indigo-100 outline-none font-bold text-slate-600 appearance-none">
+                    <option value="">Same weekday as start</option>
+                    {WEEKDAY_NAMES.map((name, day) => <option key={day} value={day}>{name}</option>)}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            <div className={`space-y-2 ${repeat === 'weekdays' ? 'md:col-span-4' : ''}`}>
+              <label className="text-[9px] font-black uppercase tracking-widest text-indigo-400 ml-1">Ends</label>
+              <div className="flex gap-2">
+                <select value={repeatEnd} onChange={(e) => setRepeatEnd(e.target.value as 'never' | 'date' | 'count')} className="flex-1 px-4 py-3 rounded-2xl bg-white border border-indigo-100 outline-none font-bold text-slate-600 appearance-none">
+                  <option value="never">Never</option>
+                  <option value="date">On date</option>
+                  <option value="count">After</option>
+                </select>
+                {repeatEnd === 'date' && (
+                  <input type="date" value={repeatUntil} onChange={(e) => setRepeatUntil(e.target.value)} className="flex-1 px-3 py-3 rounded-2xl bg-white border border-indigo-100 outline-none font-black text-slate-700 text-xs" />
+                )}
+                {repeatEnd === 'count' && (
+                  <input type="number" min="1" value={repeatCount} onChange={(e) => setRepeatCount(e.target.value)} className="w-20 px-3 py-3 rounded-2xl bg-white border border-indigo-100 outline-none font-black text-slate-700" />
+                )}
+              </div>
+            </div>
+          </div>
+        )}
 
         <div className="md:col-span-2 space-y-2 flex items-end">
           <button type="submit" className={`w-full ${isPlanner ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-slate-900 hover:bg-slate-800'} text-white font-black uppercase tracking-widest text-[11px] py-4 rounded-2xl flex items-center justify-center gap-3 shadow-xl transition-all active:scale-95`}>
             {isPlanner ? <i className="fa-solid fa-calendar-plus"></i> : <i className="fa-solid fa-check-circle"></i>}
-            {isPlanner ? 'Schedule Future Task' : 'Log Achievement'}
+            {isPlanner ? (repeat !== 'none' ? 'Schedule Series' : 'Schedule Future Task') : 'Log Achievement'}
           </button>
         </div>
       </div>
@@ -0,0 +1,152 @@
+
+import React, { useState, useMemo, useRef } from 'react';
+import { Task } from '../types';
+import { formatAppDate } from '../services/dateFormat';
+import { readImportFile, guessMapping, buildImportedTasks, IMPORT_FIELDS, ImportTable, ColumnMapping, ImportField } from '../services/taskImportService';
+
+interface TaskImporterProps {
+  categories: string[];
+  onImport: (tasks: Task[], newCategories: string[]) => void;
+}
+
+const SOURCE_LABELS: Record<ImportTable['source'], string> = {
+  'csv': 'CSV',
+  'jira-csv': 'Jira CSV',
+  'jira-xml': 'Jira XML',
+  'trello': 'Trello Board'
+};
+
+const TaskImporter: React.FC<TaskImporterProps> = ({ categories, onImport }) => {
+  const todayStr = new Date().toISOString().split('T')[0];
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [logDate, setLogDate] = useState(todayStr);
+  const [fallbackCategory, setFallbackCategory] = useState(categories[0] || 'Planning');
+  const [error, setError] = useState('');
+  const [result, setResult] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = useMemo(
+    () => table ? buildImportedTasks(table, mapping, { logDate, fallbackCategory, categories }) : null,
+    [table, mapping, logDate, fallbackCategory, categories]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    setResult('');
+    try {
+      const parsed = readImportFile(file.name, await file.text());
+      setTable(parsed);
+      setMapping(guessMapping(parsed));
+      setFileName(file.name);
+    } catch (err: any) {
+      setTable(null);
+      setError(err.message);
+    }
+  };
+
+  const updateMapping = (field: ImportField, column: string) => setMapping(prev => ({ ...prev, [field]: column || undefined }));
+
+  const confirmImport = () => {
+    if (!preview || preview.tasks.length === 0) return;
+    onImport(preview.tasks, preview.newCategories);
+    setResult(`Imported ${preview.tasks.length} task(s) into ${formatAppDate(logDate)}${preview.newCategories.length ? ` and created ${preview.newCategories.length} categor${preview.newCategories.length === 1 ? 'y' : 'ies'}` : ''}.`);
+    setTable(null);
+  };
+
+  return (
+    <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+      <h2 className="text-xl font-black text-slate-800 mb-2 flex items-center gap-3">
+        <i className="fa-solid fa-file-import text-emerald-600"></i> Import Tasks
+      </h2>
+      <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-8 ml-9">CSV spreadsheets, Jira CSV / XML exports and Trello board JSON.</p>
+
+      <button onClick={() => fileInputRef.current?.click()} className="bg-emerald-600 hover:bg-emerald-700 text-white px-8 py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-xl shadow-emerald-100 active:scale-95 transition-all flex items-center gap-3">
+        <i className="fa-solid fa-upload"></i> Choose File
+      </button>
+      <input ref={fileInputRef} type="file" accept=".csv,.xml,.json,text/csv,application/xml,application/json" onChange={handleFile} className="hidden" />
+
+      {error && <div className="mt-6 p-4 bg-red-50 border border-red-100 rounded-2xl text-xs font-bold text-red-600">{error}</div>}
+      {result && <div className="mt-6 p-4 bg-emerald-50 border border-emerald-100 rounded-2xl text-xs font-bold text-emerald-700">{result}</div>}
+
+      {table && preview && (
+        <div className="mt-8 space-y-8 animate-in slide-in-from-top-3">
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-black text-slate-800">{fileName}</span>
+            <span className="text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full bg-slate-50 text-slate-400 border border-slate-100">{SOURCE_LABELS[table.source]} · {table.rows.length} rows</span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field.id} className="space-y-2">
+                <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">{field.label}</label>
+                <select
+                  value={mapping[field.id] || ''}
+                  onChange={(e) => updateMapping(field.id, e.target.value)}
+                  className="w-full px-4 py-3 rounded-2xl bg-slate-50 border border-slate-100 outline-none font-bold text-slate-600 text-sm"
+                >
+                  <option value="">— Not imported —</option>
+                  {table.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+            ))}
+            <div className="space-y-2">
+              <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Plan For</label>
+              <input type="date" value={logDate} onChange={(e) => setLogDate(e.target.value || todayStr)} className="w-full px-4 py-3 rounded-2xl bg-slate-50 border border-slate-100 outline-none font-bold text-slate-600 text-sm" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Category When Empty</label>
+              <select value={fallbackCategory} onChange={(e) => setFallbackCategory(e.target.value)} className="w-full px-4 py-3 rounded-2xl bg-slate-50 border border-slate-100 outline-none font-bold text-slate-600 text-sm">
+                {categories.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-2xl border border-slate-100">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50">
+                <tr>
+                  {['Title', 'Category', 'Priority', 'Status', 'Due'].map(h => (
+                    <th key={h} className="text-left px-4 py-3 text-[9px] font-black uppercase tracking-widest text-slate-400">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.tasks.slice(0, 5).map(t => (
+                  <tr key={t.id} className="border-t border-slate-50">
+                    <td className="px-4 py-3 font-bold text-slate-700">{t.title}</td>
+                    <td className="px-4 py-3 font-bold text-slate-500">
+                      {t.category}
+                      {preview.newCategories.includes(t.category) && <span className="ml-2 text-[8px] font-black uppercase tracking-widest text-emerald-600">New</span>}
+                    </td>
+                    <td className="px-4 py-3 font-bold text-slate-500">{t.priority}</td>
+                    <td className="px-4 py-3 font-bold text-slate-500">{t.status.replace('_', ' ')}</td>
+                    <td className="px-4 py-3 font-bold text-slate-500">{t.dueDate ? formatAppDate(t.dueDate) : '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {preview.tasks.length} task(s) ready{preview.tasks.length > 5 && ', first 5 shown'}
+            {preview.skipped > 0 && ` · ${preview.skipped} row(s) without a title skipped`}
+            {preview.newCategories.length > 0 && ` · new categories: ${preview.newCategories.join(', ')}`}
+          </p>
+
+          <div className="flex gap-3">
+            <button onClick={() => setTable(null)} className="flex-1 bg-slate-50 text-slate-500 text-[10px] font-black uppercase tracking-widest py-4 rounded-2xl border border-slate-100">Cancel</button>
+            <button onClick={confirmImport} disabled={preview.tasks.length === 0} className="flex-[3] bg-slate-900 hover:bg-emerald-600 disabled:opacity-40 text-white text-[10px] font-black uppercase tracking-widest py-4 rounded-2xl shadow-xl transition-all">
+              Import {preview.tasks.length} Task(s)
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskImporter;
@@ -1,6 +1,10 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Task, TaskStatus, TaskPriority } from '../types';
+import { Task, TaskStatus, TaskPriority, SeriesScope, ActiveTimer } from '../types';
+import { describeRule } from '../services/recurrenceService';
+import { dueState, DueState } from '../services/deadlineService';
+import { formatElapsed } from '../services/timerService';
+import { formatAppDate } from '../services/dateFormat';
 
 interface TaskListProps {
   tasks: Array<Task>;
@@ -8,18 +12,32 @@ interface TaskListProps {
   onUpdateStatus: (id: string, status: TaskStatus) => void;
   onUpdateResponsible: (id: string, responsible: string) => void;
   onUpdateDuration: (id: string, duration: number) => void;
-  onDelete: (id: string) => void;
+  onDelete: (id: string, scope?: SeriesScope) => void;
   onMoveTask: (id: string, newDate: string, reason: string) => void;
+  onEditTask?: (id: string, changes: Partial<Task>, scope: SeriesScope) => void;
+  series?: Record<string, Task>;
+  onUpdateDueDate?: (id: string, dueDate?: string) => void;
+  preserveOrder?: boolean; // Keep the caller's ordering instead of newest first
+  activeTimer?: ActiveTimer | null;
+  onStartTimer?: (id: string) => void;
+  onPauseTimer?: (id: string) => void;
+  onStopTimer?: () => void;
+  showPlannedDate?: boolean;
 }
 
-const formatAppDate = (dateStr: string) => {
-  if (!dateStr) return '';
-  const [year, month, day] = dateStr.split('-');
-  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  const mIdx = parseInt(month, 10) - 1;
-  return `${day}-${months[mIdx]}-${year}`;
+const DUE_BADGES: Record<DueState, { label: string; className: string }> = {
+  overdue: { label: 'Overdue', className: 'bg-red-500 text-white border-red-400 shadow-lg shadow-red-100' },
+  today: { label: 'Due Today', className: 'bg-amber-400 text-slate-900 border-amber-300' },
+  soon: { label: 'Due Soon', className: 'bg-amber-50 text-amber-600 border-amber-100' },
+  later: { label: 'Due', className: 'bg-slate-50 text-slate-400 border-slate-100' }
 };
 
+const SCOPE_OPTIONS: { id: SeriesScope; label: string }[] = [
+  { id: 'this', label: 'This occurrence' },
+  { id: 'following', label: 'This & following' },
+  { id: 'all', label: 'All in series' }
+];
+
 const TaskList: React.FC<TaskListProps> = ({ 
   tasks, 
   teamMembers, 
@@ -27,16 +45,58 @@ const TaskList: React.FC<TaskListProps> = ({
   onUpdateResponsible, 
   onUpdateDuration,
   onDelete, 
-  onMoveTask 
+  onMoveTask,
+  onEditTask,
+  series = {},
+  onUpdateDueDate,
+  preserveOrder = false,
+  showPlannedDate = false,
+  activeTimer = null,
+  onStartTimer,
+  onPauseTimer,
+  onStopTimer
 }) => {
+  const todayStr = new Date().toISOString().split('T')[0];
   const [movingTaskId, setMovingTaskId] = useState<string | null>(null);
   const [moveDate, setMoveDate] = useState('');
   const [moveReason, setMoveReason] = useState('');
+  const [historyTaskId, setHistoryTaskId] = useState<string | null>(null);
+  const [editingDueId, setEditingDueId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!activeTimer?.runningSince) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeTimer?.runningSince]);
   
   const [editingDurationId, setEditingDurationId] = useState<string | null>(null);
   const [tempDuration, setTempDuration] = useState<string>('');
   const durationInputRef = useRef<HTMLInputElement>(null);
 
+  // Recurring occurrences ask whether an edit or delete applies to one occurrence or the series.
+  const [seriesAction, setSeriesAction] = useState<{ id: string; kind: 'edit' | 'delete' } | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [editNotes, setEditNotes] = useState('');
+  const [editPriority, setEditPriority] = useState<TaskPriority>(TaskPriority.MEDIUM);
+
+  const openEdit = (task: Task) => {
+    setEditTitle(task.title);
+    setEditNotes(task.notes || '');
+    setEditPriority(task.priority);
+    setSeriesAction({ id: task.id, kind: 'edit' });
+  };
+
+  const applySeriesAction = (task: Task, scope: SeriesScope) => {
+    if (seriesAction?.kind === 'delete') {
+      onDelete(task.id, scope);
+    } else if (onEditTask && editTitle.trim()) {
+      onEditTask(task.id, { title: editTitle.trim(), notes: editNotes.trim() || undefined, priority: editPriority }, scope);
+    }
+    setSeriesAction(null);
+  };
+
   useEffect(() => {
     if (editingDurationId && durationInputRef.current) {
       durationInputRef.current.focus();
@@ -70,17 +130,19 @@ const TaskList: React.FC<TaskListProps> = ({
     );
   }
 
-  const sortedTasks = [...tasks].sort((a, b) => b.createdAt - a.createdAt);
+  const sortedTasks = preserveOrder ? tasks : [...tasks].sort((a, b) => b.createdAt - a.createdAt);
 
   return (
     <div className="space-y-5">
       {sortedTasks.map((task) => {
         const isSelf = !task.blocker || task.blocker === 'Self';
         const isDone = task.status === TaskStatus.DONE;
+        const due = dueState(task, todayStr);
         
         return (
           <div 
             key={task.id} 
+            id={`task-${task.id}`}
             className={`group relative bg-white pl-4 pr-6 py-6 md:pl-10 rounded-[2rem] border transition-all ${isDone ? 'border-emerald-100 bg-emerald-50/5 shadow-sm shadow-emerald-50/20' : 'border-slate-200 hover:border-indigo-100 shadow-sm'}`}
           >
             {/* Vertical Marker */}
@@ -100,11 +162,65 @@ const TaskList: React.FC<TaskListProps> = ({
                     <i className="fa-solid fa-clock mr-1.5 opacity-50"></i>
                     {isDone ? new Date(task.completedAt || task.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : new Date(task.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                   </span>
+                  {showPlannedDate && (
+                    <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                      <i className="fa-solid fa-calendar-day mr-1.5 opacity-50"></i>
+                      Planned {formatAppDate(task.logDate)}
+                    </span>
+                  )}
+                  {editingDueId === task.id ? (
+                    <input
+                      type="date"
+                      autoFocus
+                      defaultValue={task.dueDate || ''}
+                      onBlur={(e) => { onUpdateDueDate?.(task.id, e.target.value || undefined); setEditingDueId(null); }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                        if (e.key === 'Escape') setEditingDueId(null);
+                      }}
+                      className="text-[10px] font-black px-3 py-1 rounded-full border border-indigo-200 outline-none bg-white text-slate-700"
+                    />
+                  ) : task.dueDate ? (
+                    <button
+                      type="button"
+                      disabled={!onUpdateDueDate || isDone}
+                      onClick={() => setEditingDueId(task.id)}
+                      className={`text-[8px] font-black uppercase tracking-widest px-3 py-1 rounded-full border ${due ? DUE_BADGES[due].className : 'bg-slate-50 text-slate-400 border-slate-100'}`}
+                    >
+                      <i className="fa-solid fa-flag-checkered mr-1.5"></i>
+                      {due && due !== 'later' ? `${DUE_BADGES[due].label} · ` : 'Due '}{formatAppDate(task.dueDate)}
+                    </button>
+                  ) : onUpdateDueDate && !isDone && !task.recurrence && (
+                    <button
+                      type="button"
+                      onClick={() => setEditingDueId(task.id)}
+                      className="text-[8px] font-black uppercase tracking-widest text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-all"
+                    >
+                      <i className="fa-solid fa-flag-checkered mr-1.5"></i>Set Due Date
+                    </button>
+                  )}
+                  {!isDone && (task.postponements?.length || 0) > 0 && (
+                    <span
+                      title={`Last moved from ${formatAppDate(task.postponements![task.postponements!.length - 1].fromDate)}`}
+                      className={`text-[8px] font-black uppercase tracking-widest px-3 py-1 rounded-full border ${task.postponements!.length >= 3 ? 'bg-red-50 text-red-500 border-red-100' : 'bg-amber-50 text-amber-600 border-amber-100'}`}
+                    >
+                      <i className="fa-solid fa-forward mr-1.5"></i>
+                      Slipped {task.postponements!.length}×
+                    </span>
+                  )}
                 </div>
                 
                 <h3 className={`text-lg font-black leading-tight text-slate-800`}>
                   {task.title}
                 </h3>
+
+                {task.seriesId && series[task.seriesId]?.recurrence && (
+                  <div className="mt-2 flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-indigo-400">
+                    <i className="fa-solid fa-repeat"></i>
+                    {describeRule(series[task.seriesId].recurrence!, series[task.seriesId].logDate, formatAppDate)}
+                    {task.detached && <span className="text-slate-300">· Edited separately</span>}
+                  </div>
+                )}
                 
                 {/* Display Task Notes/Hints if available */}
                 {task.notes && (
@@ -116,6 +232,31 @@ const TaskList: React.FC<TaskListProps> = ({
                   </div>
                 )}
                 
+                {task.postponements && task.postponements.length > 0 && (
+                  <div className="mt-3">
+                    <button
+                      onClick={() => setHistoryTaskId(historyTaskId === task.id ? null : task.id)}
+                      className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-amber-600 transition-all flex items-center gap-2"
+                    >
+                      <i className={`fa-solid fa-chevron-${historyTaskId === task.id ? 'down' : 'right'} text-[8px]`}></i>
+                      Reschedule History ({task.postponements.length})
+                    </button>
+                    {historyTaskId === task.id && (
+                      <ol className="mt-2 space-y-1.5 border-l-2 border-amber-100 pl-4">
+                        {[...task.postponements].reverse().map((entry, i) => (
+                          <li key={`${entry.at}-${i}`} className="text-[11px] font-bold text-slate-500">
+                            <span className="font-black text-slate-700">{formatAppDate(entry.fromDate)} → {formatAppDate(entry.toDate)}</span>
+                            {entry.reason && <span className="italic"> · {entry.reason}</span>}
+                            <span className="text-[9px] font-black uppercase tracking-widest text-slate-300 ml-2">
+                              {entry.automatic ? 'Auto' : new Date(entry.at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                )}
+
                 {!isSelf && (
                   <div className="mt-3 flex items-center gap-2">
                     <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Collab:</span>
@@ -125,6 +266,33 @@ const TaskList: React.FC<TaskListProps> = ({
               </div>
 
               <div className="flex items-center gap-4 shrink-0">
+                {/* Live Timer */}
+                {!isDone && onStartTimer && (
+                  activeTimer?.taskId === task.id ? (
+                    <div className="h-12 flex items-center gap-1 bg-slate-900 rounded-2xl pl-4 pr-1.5 shadow-xl">
+                      <span className={`text-xs font-black tabular-nums mr-2 ${activeTimer.runningSince ? 'text-white' : 'text-slate-400'}`}>
+                        {activeTimer.runningSince ? formatElapsed(now - activeTimer.runningSince) : 'Paused'}
+                      </span>
+                      {activeTimer.runningSince ? (
+                        <button onClick={() => onPauseTimer?.(task.id)} title="Pause" className="w-9 h-9 rounded-xl text-amber-400 hover:bg-slate-800 transition-all flex items-center justify-center">
+                          <i className="fa-solid fa-pause"></i>
+                        </button>
+                      ) : (
+                        <button onClick={() => onStartTimer(task.id)} title="Resume" className="w-9 h-9 rounded-xl text-emerald-400 hover:bg-slate-800 transition-all flex items-center justify-center">
+                          <i className="fa-solid fa-play"></i>
+                        </button>
+                      )}
+                      <button onClick={() => onStopTimer?.()} title="Stop" className="w-9 h-9 rounded-xl text-red-400 hover:bg-slate-800 transition-all flex items-center justify-center">
+                        <i className="fa-solid fa-stop"></i>
+                      </button>
+                    </div>
+                  ) : (
+                    <button onClick={() => onStartTimer(task.id)} title="Start timer" className="h-12 w-12 rounded-2xl bg-slate-50 border border-slate-200 text-slate-400 hover:text-emerald-600 hover:border-emerald-200 transition-all flex items-center justify-center">
+                      <i className="fa-solid fa-play"></i>
+                    </button>
+                  )
+                )}
+
                 {/* Time Log */}
                 <div className="relative">
                   {editingDurationId === task.id ? (
@@ -178,13 +346,58 @@ const TaskList: React.FC<TaskListProps> = ({
                       <i className="fa-solid fa-calendar-day"></i>
                     </button>
                   )}
-                  <button onClick={() => onDelete(task.id)} className="w-10 h-10 rounded-xl text-slate-300 hover:text-red-500 hover:bg-white transition-all flex items-center justify-center">
+                  {task.seriesId && onEditTask && (
+                    <button onClick={() => seriesAction?.id === task.id ? setSeriesAction(null) : openEdit(task)} className="w-10 h-10 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-white transition-all flex items-center justify-center">
+                      <i className="fa-solid fa-pen-to-square"></i>
+                    </button>
+                  )}
+                  <button onClick={() => task.seriesId ? setSeriesAction({ id: task.id, kind: 'delete' }) : onDelete(task.id)} className="w-10 h-10 rounded-xl text-slate-300 hover:text-red-500 hover:bg-white transition-all flex items-center justify-center">
                     <i className="fa-solid fa-trash-can"></i>
                   </button>
                 </div>
               </div>
             </div>
 
+            {seriesAction?.id === task.id && (
+              <div className="mt-6 p-6 bg-indigo-50/40 rounded-[2rem] border border-indigo-100 animate-in slide-in-from-top-3">
+                {seriesAction.kind === 'edit' && (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+                    <div className="md:col-span-2 space-y-2">
+                      <label className="text-[9px] font-black text-indigo-400 uppercase tracking-widest ml-1">Title</label>
+                      <input type="text" value={editTitle} onChange={(e) => setEditTitle(e.target.value)} className="w-full text-sm p-4 rounded-2xl border border-indigo-100 outline-none bg-white font-black text-slate-700 shadow-sm"/>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-[9px] font-black text-indigo-400 uppercase tracking-widest ml-1">Priority</label>
+                      <select value={editPriority} onChange={(e) => setEditPriority(e.target.value as TaskPriority)} className="w-full text-sm p-4 rounded-2xl border border-indigo-100 outline-none bg-white font-bold text-slate-600 shadow-sm appearance-none">
+                        <option value={TaskPriority.LOW}>Low</option>
+                        <option value={TaskPriority.MEDIUM}>Medium</option>
+                        <option value={TaskPriority.HIGH}>High</option>
+                      </select>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-[9px] font-black text-indigo-400 uppercase tracking-widest ml-1">Notes</label>
+                      <input type="text" value={editNotes} onChange={(e) => setEditNotes(e.target.value)} className="w-full text-sm p-4 rounded-2xl border border-indigo-100 outline-none bg-white font-medium shadow-sm"/>
+                    </div>
+                  </div>
+                )}
+                <p className="text-[9px] font-black text-indigo-400 uppercase tracking-widest ml-1 mb-3">
+                  {seriesAction.kind === 'delete' ? 'Delete which events?' : 'Apply changes to'}
+                </p>
+                <div className="flex flex-col md:flex-row gap-3">
+                  <button onClick={() => setSeriesAction(null)} className="flex-1 text-[10px] font-black uppercase text-slate-400 tracking-widest py-3">Cancel</button>
+                  {SCOPE_OPTIONS.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => applySeriesAction(task, option.id)}
+                      className={`flex-[2] text-[10px] font-black uppercase tracking-widest py-4 rounded-2xl shadow-xl transition-all active:scale-95 ${seriesAction.kind === 'delete' ? 'bg-white text-red-500 border border-red-100 shadow-red-50 hover:bg-red-50' : 'bg-slate-900 text-white shadow-slate-200'}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {movingTaskId === task.id && (
               <div className="mt-6 p-6 bg-indigo-50/40 rounded-[2rem] border border-indigo-100 animate-in slide-in-from-top-3">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -0,0 +1,109 @@
+
+import React, { useState, useMemo } from 'react';
+import { Task, WorkCalendar } from '../types';
+import { formatAppDate } from '../services/dateFormat';
+import { addDays, weekdayOf } from '../services/recurrenceService';
+import { isWorkingDay } from '../services/rolloverService';
+import { weekStart, buildTimesheet, exportTimesheetCsv, exportTimesheetXlsx } from '../services/timesheetService';
+
+interface TimesheetProps {
+  tasks: Task[];
+  calendar: WorkCalendar;
+  targetHours: number;
+  onTargetHoursChange: (hours: number) => void;
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const Timesheet: React.FC<TimesheetProps> = ({ tasks, calendar, targetHours, onTargetHoursChange }) => {
+  const todayStr = new Date().toISOString().split('T')[0];
+  const [start, setStart] = useState(() => weekStart(todayStr));
+  const sheet = useMemo(() => buildTimesheet(tasks, start), [tasks, start]);
+
+  // Only working days that have already started can fall short of the target.
+  const isShort = (day: string, hours: number) => day <= todayStr && isWorkingDay(day, calendar) && hours < targetHours;
+
+  return (
+    <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4">
+      <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div className="flex items-center bg-slate-50 p-1 rounded-2xl border border-slate-100 shadow-inner w-fit">
+          <button onClick={() => setStart(addDays(start, -7))} className="p-3 hover:bg-white rounded-xl text-slate-400"><i className="fa-solid fa-chevron-left"></i></button>
+          <div className="px-5 text-center min-w-[200px]">
+            <span className="block text-[9px] font-black uppercase text-indigo-500 tracking-widest mb-0.5">Week</span>
+            <span className="text-sm font-black text-slate-800">{formatAppDate(sheet.days[0])} – {formatAppDate(sheet.days[6])}</span>
+          </div>
+          <button onClick={() => setStart(addDays(start, 7))} className="p-3 hover:bg-white rounded-xl text-slate-400"><i className="fa-solid fa-chevron-right"></i></button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            Daily Target
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={targetHours}
+              onChange={(e) => onTargetHoursChange(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-16 bg-slate-50 border border-slate-200 px-3 py-2 rounded-xl text-xs font-black text-slate-700 outline-none text-center"
+            />
+            h
+          </label>
+          <button onClick={() => exportTimesheetCsv(sheet)} disabled={sheet.rows.length === 0} className="bg-slate-100 hover:bg-slate-200 disabled:opacity-40 text-slate-700 px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2">
+            <i className="fa-solid fa-file-csv"></i> CSV
+          </button>
+          <button onClick={() => exportTimesheetXlsx(sheet)} disabled={sheet.rows.length === 0} className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl shadow-emerald-100 transition-all flex items-center gap-2">
+            <i className="fa-solid fa-file-excel"></i> Excel
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] border border-slate-200 shadow-sm overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-100">
+              <th className="text-left px-8 py-5 text-[10px] font-black uppercase tracking-widest text-slate-400">Category</th>
+              {sheet.days.map(day => (
+                <th key={day} className={`px-4 py-5 text-center text-[10px] font-black uppercase tracking-widest ${isWorkingDay(day, calendar) ? 'text-slate-500' : 'text-slate-300'}`}>
+                  <span className="block">{WEEKDAY_NAMES[weekdayOf(day)]}</span>
+                  <span className="text-[9px] text-slate-300">{day.slice(8)}</span>
+                </th>
+              ))}
+              <th className="px-6 py-5 text-center text-[10px] font-black uppercase tracking-widest text-slate-500">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.rows.map(row => (
+              <tr key={row.category} className="border-b border-slate-50">
+                <td className="px-8 py-4 text-[10px] font-black uppercase tracking-widest text-slate-600">{row.category}</td>
+                {row.hours.map((hours, i) => (
+                  <td key={sheet.days[i]} className={`px-4 py-4 text-center font-bold ${hours ? 'text-slate-800' : 'text-slate-200'}`}>{hours || '–'}</td>
+                ))}
+                <td className="px-6 py-4 text-center font-black text-slate-800">{row.total}</td>
+              </tr>
+            ))}
+            {sheet.rows.length === 0 && (
+              <tr>
+                <td colSpan={9} className="text-center py-16 text-slate-300 font-black uppercase text-xs tracking-[0.4em]">No logged hours this week</td>
+              </tr>
+            )}
+          </tbody>
+          <tfoot>
+            <tr className="bg-slate-50">
+              <td className="px-8 py-5 text-[10px] font-black uppercase tracking-widest text-slate-500">Total</td>
+              {sheet.dayTotals.map((hours, i) => (
+                <td key={sheet.days[i]} className="px-2 py-3 text-center">
+                  <span className={`inline-block min-w-[3rem] px-2 py-1.5 rounded-xl font-black ${isShort(sheet.days[i], hours) ? 'bg-red-50 text-red-500 border border-red-100' : 'text-slate-800'}`}>
+                    {hours}
+                  </span>
+                </td>
+              ))}
+              <td className="px-6 py-5 text-center font-black text-indigo-600">{sheet.total}h</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default Timesheet;
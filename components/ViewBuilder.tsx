@@ -0,0 +1,196 @@
+
+import React, { useState, useMemo } from 'react';
+import { Task, TaskStatus, TaskPriority, SavedView, ViewCondition, ViewField, ViewSort } from '../types';
+import { VIEW_FIELDS, OPERATORS, VALUELESS, VIEW_TEMPLATES, fieldType, applyView } from '../services/viewService';
+
+interface ViewBuilderProps {
+  view: SavedView | null; // Null when creating a new view
+  tasks: Task[];
+  categories: string[];
+  teamMembers: string[];
+  today: string;
+  onSave: (view: SavedView) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const newId = () => typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : Date.now().toString(36) + Math.random().toString(36).substring(2);
+
+const inputClass = 'px-4 py-3 rounded-2xl bg-slate-50 border border-slate-100 outline-none focus:ring-4 focus:ring-indigo-50 font-bold text-xs text-slate-700';
+
+const ViewBuilder: React.FC<ViewBuilderProps> = ({ view, tasks, categories, teamMembers, today, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(view?.name || '');
+  const [conditions, setConditions] = useState<ViewCondition[]>(view?.conditions || []);
+  const [sort, setSort] = useState<ViewSort[]>(view?.sort || []);
+
+  const matching = useMemo(() => applyView(tasks, { conditions, sort }, today), [tasks, conditions, sort, today]);
+
+  const choices = (field: ViewField): string[] => {
+    if (field === 'category') return categories;
+    if (field === 'priority') return Object.values(TaskPriority);
+    if (field === 'status') return Object.values(TaskStatus);
+    return ['Self', ...teamMembers];
+  };
+
+  // A new field starts on its first operator, and on its first option for pick lists.
+  const conditionFor = (field: ViewField): ViewCondition => ({
+    field,
+    operator: OPERATORS[fieldType(field)][0].id,
+    value: fieldType(field) === 'choice' ? choices(field)[0] : undefined
+  });
+
+  // Dates switch between a day and a number of days, so they start over; pick lists keep their choice.
+  const valueAfterOperatorChange = (condition: ViewCondition) => {
+    const type = fieldType(condition.field);
+    if (type === 'date') return '';
+    if (type === 'choice') return condition.value || choices(condition.field)[0];
+    return condition.value;
+  };
+
+  const updateCondition = (index: number, changes: Partial<ViewCondition>) =>
+    setConditions(prev => prev.map((c, i) => i === index ? { ...c, ...changes } : c));
+
+  const applyTemplate = (template: typeof VIEW_TEMPLATES[number]) => {
+    setName(template.name);
+    setConditions(template.conditions.map(c => ({ ...c })));
+    setSort(template.sort.map(s => ({ ...s })));
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave({
+      ...(view || { id: newId(), createdAt: Date.now() }),
+      name: name.trim(),
+      conditions: conditions.map(c => VALUELESS.includes(c.operator) ? { field: c.field, operator: c.operator } : c),
+      sort
+    });
+  };
+
+  const renderValue = (condition: ViewCondition, index: number) => {
+    if (VALUELESS.includes(condition.operator)) return null;
+    const type = fieldType(condition.field);
+    const value = condition.value || '';
+    const set = (next: string) => updateCondition(index, { value: next });
+
+    if (type === 'choice') {
+      return (
+        <select value={value} onChange={(e) => set(e.target.value)} className={inputClass}>
+          {choices(condition.field).map(c => <option key={c} value={c}>{c.replace('_', ' ')}</option>)}
+        </select>
+      );
+    }
+    if (type === 'date' && (condition.operator === 'withinNext' || condition.operator === 'withinLast')) {
+      return <input type="number" min="0" value={value} onChange={(e) => set(e.target.value)} placeholder="Days" className={`${inputClass} w-24`} />;
+    }
+    if (type === 'date') {
+      return (
+        <div className="flex items-center gap-2">
+          {value === 'today'
+            ? <span className={`${inputClass} text-indigo-600`}>Today</span>
+            : <input type="date" value={value} onChange={(e) => set(e.target.value)} className={inputClass} />}
+          <button type="button" onClick={() => set(value === 'today' ? '' : 'today')} className="text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+            {value === 'today' ? 'Pick Date' : 'Today'}
+          </button>
+        </div>
+      );
+    }
+    if (type === 'number') {
+      return <input type="number" min="0" step="any" value={value} onChange={(e) => set(e.target.value)} className={`${inputClass} w-24`} />;
+    }
+    return <input type="text" value={value} onChange={(e) => set(e.target.value)} placeholder="Text..." className={`${inputClass} flex-1 min-w-[120px]`} />;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-3xl rounded-[2.5rem] shadow-2xl p-10 animate-in zoom-in-95 duration-300 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-4 mb-8">
+          <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center shadow-sm">
+            <i className="fa-solid fa-filter"></i>
+          </div>
+          <div className="flex-1">
+            <h2 className="text-xl font-black text-slate-800">{view ? 'Edit View' : 'New View'}</h2>
+            <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">{matching.length} matching task{matching.length === 1 ? '' : 's'}</span>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-300 hover:text-slate-600"><i className="fa-solid fa-xmark"></i></button>
+        </div>
+
+        {!view && (
+          <div className="mb-8">
+            <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Start From</label>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {VIEW_TEMPLATES.map(t => (
+                <button key={t.name} type="button" onClick={() => applyTemplate(t)} className="text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-xl bg-slate-50 border border-slate-100 text-slate-500 hover:border-indigo-200 hover:text-indigo-600">
+                  {t.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Name</label>
+        <input autoFocus type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Waiting on QA" className={`${inputClass} w-full mt-2 mb-8 text-sm`} />
+
+        <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Show Tasks Where (All Must Match)</label>
+        <div className="space-y-3 mt-2 mb-4">
+          {conditions.map((condition, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2">
+              <select value={condition.field} onChange={(e) => updateCondition(i, conditionFor(e.target.value as ViewField))} className={inputClass}>
+                {VIEW_FIELDS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+              <select
+                value={condition.operator}
+                onChange={(e) => updateCondition(i, { operator: e.target.value as ViewCondition['operator'], value: valueAfterOperatorChange(condition) })}
+                className={inputClass}
+              >
+                {OPERATORS[fieldType(condition.field)].map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+              </select>
+              {renderValue(condition, i)}
+              <button type="button" onClick={() => setConditions(prev => prev.filter((_, j) => j !== i))} className="p-2 text-slate-300 hover:text-red-500"><i className="fa-solid fa-trash-can text-xs"></i></button>
+            </div>
+          ))}
+        </div>
+        <button type="button" onClick={() => setConditions(prev => [...prev, conditionFor('category')])} className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800 mb-8">
+          <i className="fa-solid fa-plus mr-2"></i>Add Condition
+        </button>
+
+        <label className="block text-[9px] font-black uppercase tracking-widest text-slate-400 ml-1">Sort By</label>
+        <div className="space-y-3 mt-2 mb-4">
+          {sort.map((s, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-300 w-10">{i === 0 ? 'First' : 'Then'}</span>
+              <select value={s.field} onChange={(e) => setSort(prev => prev.map((x, j) => j === i ? { ...x, field: e.target.value as ViewField } : x))} className={inputClass}>
+                {VIEW_FIELDS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+              <select value={s.direction} onChange={(e) => setSort(prev => prev.map((x, j) => j === i ? { ...x, direction: e.target.value as ViewSort['direction'] } : x))} className={inputClass}>
+                <option value="asc">Ascending</option>
+                <option value="desc">Descending</option>
+              </select>
+              <button type="button" onClick={() => setSort(prev => prev.filter((_, j) => j !== i))} className="p-2 text-slate-300 hover:text-red-500"><i className="fa-solid fa-trash-can text-xs"></i></button>
+            </div>
+          ))}
+        </div>
+        <button type="button" onClick={() => setSort(prev => [...prev, { field: 'logDate', direction: 'asc' }])} className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+          <i className="fa-solid fa-plus mr-2"></i>Add Sort
+        </button>
+        {sort.length === 0 && <p className="text-[10px] font-bold text-slate-400 mt-2 ml-1">Without a sort, the newest tasks come first.</p>}
+
+        <div className="flex items-center gap-4 mt-10">
+          {view && (
+            <button onClick={() => onDelete(view.id)} className="px-6 py-4 rounded-2xl text-[11px] font-black uppercase tracking-widest text-red-500 hover:bg-red-50">
+              Delete View
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="flex-1 bg-slate-900 hover:bg-indigo-600 disabled:opacity-40 disabled:hover:bg-slate-900 text-white font-black uppercase tracking-widest text-[11px] py-4 rounded-2xl shadow-xl transition-all active:scale-95"
+          >
+            Save View
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ViewBuilder;
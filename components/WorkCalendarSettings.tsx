@@ -0,0 +1,72 @@
+
+import React, { useState } from 'react';
+import { WorkCalendar } from '../types';
+import { formatAppDate } from '../services/dateFormat';
+
+interface WorkCalendarSettingsProps {
+  calendar: WorkCalendar;
+  onChange: (calendar: WorkCalendar) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WorkCalendarSettings: React.FC<WorkCalendarSettingsProps> = ({ calendar, onChange }) => {
+  const [holiday, setHoliday] = useState('');
+
+  const toggleDay = (day: number) => {
+    const workdays = calendar.workdays.includes(day)
+      ? calendar.workdays.filter(d => d !== day)
+      : [...calendar.workdays, day].sort();
+    onChange({ ...calendar, workdays });
+  };
+
+  const addHoliday = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!holiday || calendar.holidays.includes(holiday)) return;
+    onChange({ ...calendar, holidays: [...calendar.holidays, holiday].sort() });
+    setHoliday('');
+  };
+
+  return (
+    <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+      <h2 className="text-xl font-black text-slate-800 mb-2 flex items-center gap-3">
+        <i className="fa-solid fa-calendar-week text-amber-500"></i> Work Calendar
+      </h2>
+      <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-8 ml-9">Unfinished tasks are carried over to the next working day.</p>
+
+      <div className="flex flex-wrap gap-3 mb-8">
+        {WEEKDAYS.map((name, day) => (
+          <button
+            key={name}
+            type="button"
+            onClick={() => toggleDay(day)}
+            className={`w-16 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all ${calendar.workdays.includes(day) ? 'bg-slate-900 text-white border-slate-900 shadow-lg' : 'bg-slate-50 text-slate-400 border-slate-100'}`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={addHoliday} className="flex gap-4 mb-6">
+        <input type="date" value={holiday} onChange={(e) => setHoliday(e.target.value)} className="flex-1 bg-slate-50 border border-slate-200 px-6 py-4 rounded-2xl outline-none font-bold focus:ring-2 focus:ring-amber-400 transition-all" />
+        <button type="submit" className="bg-amber-400 text-slate-900 px-8 py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-xl shadow-amber-100 active:scale-95 transition-all">Add Holiday</button>
+      </form>
+
+      <div className="flex flex-wrap gap-3">
+        {calendar.holidays.map(date => (
+          <span key={date} className="flex items-center gap-3 px-5 py-3 bg-slate-50 border border-slate-100 rounded-[1.5rem] text-sm font-black text-slate-700">
+            {formatAppDate(date)}
+            <button onClick={() => onChange({ ...calendar, holidays: calendar.holidays.filter(h => h !== date) })} className="text-slate-300 hover:text-red-500 transition-all">
+              <i className="fa-solid fa-xmark text-xs"></i>
+            </button>
+          </span>
+        ))}
+        {calendar.holidays.length === 0 && (
+          <span className="text-[10px] font-black uppercase text-slate-300 tracking-widest">No holidays added</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorkCalendarSettings;
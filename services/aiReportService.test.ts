@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { Task, TaskStatus, TaskPriority, LlmSettings } from '../types';
+import { DEFAULT_LLM_SETTINGS } from './llmProviders';
+import { buildDaySource } from './reportService';
+import { generateReport, regenerateSection } from './aiReportService';
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Fix login',
+  description: '',
+  status: TaskStatus.DONE,
+  priority: TaskPriority.MEDIUM,
+  category: 'Bug Fix',
+  createdAt: 1,
+  logDate: '2026-10-19',
+  ...overrides
+});
+
+const offline: LlmSettings = { ...DEFAULT_LLM_SETTINGS, provider: 'offline', model: '' };
+const source = buildDaySource([task({ duration: 1.5 }), task({ id: 't2', title: 'Migrate billing', status: TaskStatus.TODO })], '2026-10-19');
+
+describe('generateReport', () => {
+  it('fills every section from the template provider without a model', async () => {
+    const sections = await generateReport(source, 'daily', offline);
+    expect(sections.map(s => s.title)).toEqual(['Daily Overview', 'Key Accomplishments', 'Blocked Items & Dependencies', 'Upcoming Deadlines', 'Plan for Next Day']);
+    expect(sections.find(s => s.id === 'accomplishments')!.content).toBe('- Fix login (1.5h)');
+    expect(sections.find(s => s.id === 'nextSteps')!.content).toBe('- Continue Migrate billing');
+  });
+
+  it('refuses a day with nothing logged', async () => {
+    await expect(generateReport(buildDaySource([], '2026-10-19'), 'daily', offline)).rejects.toThrow('No tasks logged for this date.');
+  });
+});
+
+describe('regenerateSection', () => {
+  it('rewrites only the requested section', async () => {
+    const section = await regenerateSection(source, 'standup', [], 'accomplishments', offline);
+    expect(section).toEqual({ id: 'accomplishments', title: 'Done', content: '- Fix login (1.5h)' });
+  });
+});
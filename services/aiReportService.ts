@@ -0,0 +1,187 @@
+
+import { Task, TaskStatus, ReportTemplate, SummarySection, SummarySectionId, LlmSettings } from "../types";
+import { ReportSource } from "./reportService";
+import { formatAppDate } from "./dateFormat";
+import { generateJson, JsonSchema } from "./llmProviders";
+import { summarizeOffline } from "./offlineSummarizer";
+
+export const SECTION_ORDER: SummarySectionId[] = ['overview', 'accomplishments', 'blockers', 'deadlines', 'nextSteps'];
+
+// Every template fills the same typed sections; only their titles and what goes in them differ.
+const TEMPLATE_SECTIONS: Record<ReportTemplate, { intro: string; sections: Record<SummarySectionId, { title: string; guide: string }> }> = {
+  daily: {
+    intro: "Write a professional summary suitable for a manager's end-of-day report or a stand-up meeting.",
+    sections: {
+      overview: { title: 'Daily Overview', guide: 'A concise summary of overall progress for the day.' },
+      accomplishments: { title: 'Key Accomplishments', guide: "Specific tasks marked 'DONE'." },
+      blockers: { title: 'Blocked Items & Dependencies', guide: "Anything marked as 'BLOCKED BY', with who needs to follow up." },
+      deadlines: { title: 'Upcoming Deadlines', guide: 'Tasks with completion targets (due dates) that are approaching.' },
+      nextSteps: { title: 'Plan for Next Day', guide: "The most logical next steps based on 'TODO' or 'IN_PROGRESS' items." }
+    }
+  },
+  standup: {
+    intro: 'Write a short stand-up update; keep every item to one line.',
+    sections: {
+      overview: { title: 'Summary', guide: 'One sentence on the period.' },
+      accomplishments: { title: 'Done', guide: 'What was completed in the period.' },
+      blockers: { title: 'Blockers', guide: 'Anything waiting on a collaborator, naming who.' },
+      deadlines: { title: 'Due Soon', guide: 'Open items with a completion target.' },
+      nextSteps: { title: 'Next', guide: 'What is planned next, based on the open items.' }
+    }
+  },
+  weekly: {
+    intro: 'Write a weekly status report.',
+    sections: {
+      overview: { title: 'Summary', guide: 'Two or three sentences on overall progress and hours invested.' },
+      accomplishments: { title: 'Accomplishments by Category', guide: 'One item per category with its hours and the key work.' },
+      blockers: { title: 'Recurring Blockers', guide: 'Collaborators that held up work, marking the recurring ones, with a suggested follow-up.' },
+      deadlines: { title: 'Deadlines & Carried Over', guide: 'Open items, their targets, and anything that kept slipping.' },
+      nextSteps: { title: 'Focus for Next Week', guide: 'The most logical priorities.' }
+    }
+  },
+  'self-review': {
+    intro: 'Write a performance self-review for the period, in the first person.',
+    sections: {
+      overview: { title: 'Highlights', guide: 'The most significant contributions, with the effort behind them.' },
+      accomplishments: { title: 'Impact by Area', guide: 'One item per category summarizing the work and the hours invested.' },
+      blockers: { title: 'Collaboration & Challenges', guide: 'Dependencies on colleagues and recurring blockers, framed constructively.' },
+      deadlines: { title: 'Open Commitments', guide: 'Work still in flight and its targets.' },
+      nextSteps: { title: 'Goals for the Next Period', guide: 'Concrete, measurable goals.' }
+    }
+  }
+};
+
+const SECTION_SCHEMAS: Record<SummarySectionId, JsonSchema> = {
+  overview: { type: 'string' },
+  accomplishments: { type: 'array', items: { type: 'string' } },
+  blockers: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { item: { type: 'string' }, owner: { type: 'string' }, followUp: { type: 'string' } },
+      required: ['item', 'owner']
+    }
+  },
+  deadlines: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { task: { type: 'string' }, dueDate: { type: 'string' }, note: { type: 'string' } },
+      required: ['task', 'dueDate']
+    }
+  },
+  nextSteps: { type: 'array', items: { type: 'string' } }
+};
+
+const responseSchema = (ids: SummarySectionId[]): JsonSchema => ({
+  type: 'object',
+  properties: Object.fromEntries(ids.map(id => [id, SECTION_SCHEMAS[id]])),
+  required: ids
+});
+
+// Typed model output becomes plain text the user can edit; lists become "- " bullets.
+const sectionText = (id: SummarySectionId, value: any): string => {
+  if (id === 'overview') return String(value || '').trim();
+  const items: any[] = Array.isArray(value) ? value : [];
+  if (items.length === 0) return 'None.';
+  return items.map(item => {
+    if (id === 'blockers') return `- ${item.item} — Owner: ${item.owner}${item.followUp ? ` (${item.followUp})` : ''}`;
+    if (id === 'deadlines') return `- ${item.task} — Due ${item.dueDate}${item.note ? ` (${item.note})` : ''}`;
+    return `- ${item}`;
+  }).join('\n');
+};
+
+const describeTask = (t: Task) => {
+  let taskStr = `- [${t.status}] ${t.title} (${t.priority} Priority)`;
+  if (t.dueDate) taskStr += ` | Completion Target: ${formatAppDate(t.dueDate)}`;
+  if (t.blocker && t.blocker !== 'Self') taskStr += ` | BLOCKED BY: ${t.blocker}`;
+  if (t.postponements?.length) taskStr += ` | Postponed ${t.postponements.length} time(s)`;
+  if (t.description) taskStr += ` | Details: ${t.description}`;
+  return taskStr;
+};
+
+const describeSource = (source: ReportSource): string => {
+  if (source.kind === 'day') {
+    const done = source.tasks.filter(t => t.status === TaskStatus.DONE);
+    const open = source.tasks.filter(t => t.status !== TaskStatus.DONE);
+    return `
+        Date: ${formatAppDate(source.tasks[0].logDate)}
+
+        Completed Tasks:
+        ${done.map(describeTask).join('\n') || 'None'}
+
+        Still Open:
+        ${open.map(describeTask).join('\n') || 'None'}`;
+  }
+  const { digest } = source;
+  const accomplishments = digest.categories.map(group =>
+    `${group.category} (${group.hours}h):\n` + group.tasks.map(t => `  - ${t.title}${t.duration ? ` (${t.duration}h)` : ''}${t.description ? ` | Details: ${t.description}` : ''}`).join('\n')
+  ).join('\n');
+  const blockers = digest.blockers.map(b => `- ${b.name}: ${b.count} task(s)${b.count > 1 ? ' (recurring)' : ''}`).join('\n');
+  return `
+        Report period: ${formatAppDate(digest.range.from)} to ${formatAppDate(digest.range.to)} (${digest.days} day${digest.days === 1 ? '' : 's'}).
+        Total hours logged on completed work: ${digest.totalHours}h. Reschedules in the period: ${digest.postponed}.
+
+        Completed Work by Category:
+        ${accomplishments || 'None'}
+
+        Still Open:
+        ${digest.open.map(describeTask).join('\n') || 'None'}
+
+        Waiting on Collaborators:
+        ${blockers || 'None'}`;
+};
+
+const isEmpty = (source: ReportSource) =>
+  source.kind === 'day' ? source.tasks.length === 0 : source.digest.categories.length === 0 && source.digest.open.length === 0;
+
+// Without a model the same typed sections are filled from the source by the offline summarizer.
+const requestSections = (source: ReportSource, prompt: string, ids: SummarySectionId[], settings: LlmSettings): Promise<Record<string, any>> =>
+  generateJson({ prompt, schema: responseSchema(ids), local: () => summarizeOffline(source, ids) }, settings);
+
+const sectionGuide = (template: ReportTemplate, ids: SummarySectionId[]) =>
+  ids.map(id => `- ${id} ("${TEMPLATE_SECTIONS[template].sections[id].title}"): ${TEMPLATE_SECTIONS[template].sections[id].guide}`).join('\n        ');
+
+/**
+ * Generates a report as typed sections with the configured provider. Figures such as hours and blocker
+ * counts are given to the model rather than left for it to estimate. Throws when there is nothing to
+ * report or the provider fails, with a message saying what to fix.
+ */
+export const generateReport = async (source: ReportSource, template: ReportTemplate, settings: LlmSettings): Promise<SummarySection[]> => {
+  if (isEmpty(source)) throw new Error(source.kind === 'day' ? "No tasks logged for this date." : "No tasks logged in this date range.");
+
+  const result = await requestSections(source, `
+        ${TEMPLATE_SECTIONS[template].intro}
+        ${describeSource(source)}
+
+        Fill in these sections:
+        ${sectionGuide(template, SECTION_ORDER)}
+
+        Always use the date format DD-MMM-YYYY (e.g. 10-Feb-2026) when referencing dates, and use the hour
+        figures given above rather than estimating. Maintain a professional, proactive, and clear tone.
+      `, SECTION_ORDER, settings);
+
+  return SECTION_ORDER.map(id => ({ id, title: TEMPLATE_SECTIONS[template].sections[id].title, content: sectionText(id, result[id]) }));
+};
+
+/** Rewrites one section, showing the model the rest of the (possibly edited) report for consistency. */
+export const regenerateSection = async (source: ReportSource, template: ReportTemplate, sections: SummarySection[], id: SummarySectionId, settings: LlmSettings): Promise<SummarySection> => {
+  const others = sections.filter(s => s.id !== id).map(s => `## ${s.title}\n${s.content}`).join('\n\n');
+  const result = await requestSections(source, `
+        ${TEMPLATE_SECTIONS[template].intro}
+        ${describeSource(source)}
+
+        The rest of the report currently reads:
+        ${others}
+
+        Write a fresh version of only this section, consistent with the rest of the report:
+        ${sectionGuide(template, [id])}
+
+        Always use the date format DD-MMM-YYYY (e.g. 10-Feb-2026) when referencing dates.
+      `, [id], settings);
+
+  return { id, title: TEMPLATE_SECTIONS[template].sections[id].title, content: sectionText(id, result[id]) };
+};
+
+export const sectionsToMarkdown = (sections: SummarySection[]) =>
+  sections.map(s => `## ${s.title}\n${s.content}`).join('\n\n');
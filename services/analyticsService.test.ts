@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Task, TaskStatus, TaskPriority } from '../types';
+import { buildAnalytics } from './analyticsService';
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: Math.random().toString(36).slice(2),
+  title: 'Task',
+  description: '',
+  status: TaskStatus.TODO,
+  priority: TaskPriority.MEDIUM,
+  category: 'Development',
+  createdAt: 1,
+  logDate: '2026-10-12',
+  ...overrides
+});
+
+const range = { from: '2026-10-12', to: '2026-10-14' };
+
+describe('buildAnalytics', () => {
+  it('counts a task as planned on the day it was first planned for, and as done on the day it was finished', () => {
+    // Planned for the 12th, carried over to the 13th and finished there.
+    const carried = task({
+      status: TaskStatus.DONE,
+      logDate: '2026-10-13',
+      duration: 2,
+      postponements: [{ fromDate: '2026-10-12', toDate: '2026-10-13', reason: 'Carried over', at: 1, automatic: true }]
+    });
+    const { trend, totals } = buildAnalytics([carried], range);
+
+    expect(trend.map(p => [p.label, p.planned, p.done, p.hours])).toEqual([
+      ['2026-10-12', 1, 0, 0],
+      ['2026-10-13', 0, 1, 2],
+      ['2026-10-14', 0, 0, 0]
+    ]);
+    expect(totals).toMatchObject({ planned: 1, done: 1, completionRate: 100, hours: 2 });
+  });
+
+  it('rates each day by how much of its plan got done', () => {
+    const tasks = [
+      task({ status: TaskStatus.DONE }),
+      // Still open after two carry-overs: the 12th's plan was only half done.
+      task({
+        logDate: '2026-10-14',
+        postponements: [
+          { fromDate: '2026-10-12', toDate: '2026-10-13', reason: 'Carried over', at: 1 },
+          { fromDate: '2026-10-13', toDate: '2026-10-14', reason: 'Carried over', at: 2 }
+        ]
+      }),
+      task({ logDate: '2026-10-13', status: TaskStatus.DONE })
+    ];
+    const { trend, totals } = buildAnalytics(tasks, range);
+
+    expect(trend.map(p => p.completionRate)).toEqual([50, 100, null]);
+    expect(totals.completionRate).toBe(67);
+  });
+
+  it('leaves series templates and work outside the range out', () => {
+    const tasks = [
+      task({ recurrence: { frequency: 'daily', interval: 1 } as Task['recurrence'] }),
+      task({ logDate: '2026-10-20', status: TaskStatus.DONE })
+    ];
+    expect(buildAnalytics(tasks, range).totals).toMatchObject({ planned: 0, done: 0, completionRate: null });
+  });
+});
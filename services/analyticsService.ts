@@ -0,0 +1,139 @@
+import { Task, TaskStatus, TaskPriority, DateRange } from '../types';
+import { addDays, daysBetween } from './recurrenceService';
+import { weekStart } from './timesheetService';
+
+export type AnalyticsPreset = 'last-7' | 'last-30' | 'last-90' | 'this-year' | 'custom';
+
+export const ANALYTICS_PRESETS: { id: AnalyticsPreset; label: string }[] = [
+  { id: 'last-7', label: 'Last 7 Days' },
+  { id: 'last-30', label: 'Last 30 Days' },
+  { id: 'last-90', label: 'Last 90 Days' },
+  { id: 'this-year', label: 'This Year' },
+  { id: 'custom', label: 'Custom' }
+];
+
+export const analyticsRange = (preset: Exclude<AnalyticsPreset, 'custom'>, today: string): DateRange => {
+  switch (preset) {
+    case 'last-7': return { from: addDays(today, -6), to: today };
+    case 'last-30': return { from: addDays(today, -29), to: today };
+    case 'last-90': return { from: addDays(today, -89), to: today };
+    case 'this-year': return { from: `${today.slice(0, 4)}-01-01`, to: today };
+  }
+};
+
+export interface TrendPoint {
+  label: string; // First day of the bucket
+  hours: number;
+  planned: number; // Tasks originally planned for the bucket, whatever their status
+  done: number; // Tasks completed in the bucket
+  completionRate: number | null; // Percent of the bucket's planned tasks done since; null when nothing was planned
+}
+
+export interface HeatmapDay {
+  date: string;
+  hours: number;
+  done: number;
+  inRange: boolean;
+}
+
+export interface Analytics {
+  totals: { hours: number; done: number; planned: number; completionRate: number | null; activeDays: number };
+  bucket: 'day' | 'week';
+  trend: TrendPoint[];
+  categories: { category: string; hours: number; count: number }[];
+  priorities: { priority: TaskPriority; count: number }[];
+  heatmap: HeatmapDay[][]; // One column per week, Monday first
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const rate = (done: number, planned: number) => planned > 0 ? Math.round(done / planned * 100) : null;
+
+// Beyond two months a point per day is too dense to read, so the trend switches to weeks.
+const WEEKLY_AFTER_DAYS = 62;
+
+// Completing a task moves it onto the day it was done and carrying it over moves it forward, so the day it
+// was first planned for is the one its earliest postponement started from.
+const plannedDay = (task: Task) => task.postponements?.[0]?.fromDate || task.logDate;
+
+interface DayTotals { hours: number; planned: number; plannedDone: number; done: number }
+
+const emptyDay = (): DayTotals => ({ hours: 0, planned: 0, plannedDone: 0, done: 0 });
+
+/**
+ * Figures for the Stats tab over `range`. Finished work counts on its diary date (`logDate`), plans on the
+ * day they were first made for; series templates are left out since only their occurrences represent work.
+ */
+export const buildAnalytics = (tasks: Task[], range: DateRange): Analytics => {
+  const within = (date: string) => date >= range.from && date <= range.to;
+  const occurrences = tasks.filter(t => !t.recurrence);
+  const planned = occurrences.filter(t => within(plannedDay(t)));
+  const done = occurrences.filter(t => t.status === TaskStatus.DONE && within(t.logDate));
+  const length = daysBetween(range.from, range.to) + 1;
+
+  const perDay = new Map<string, DayTotals>();
+  const dayOf = (date: string) => {
+    if (!perDay.has(date)) perDay.set(date, emptyDay());
+    return perDay.get(date)!;
+  };
+  planned.forEach(t => {
+    const day = dayOf(plannedDay(t));
+    day.planned += 1;
+    if (t.status === TaskStatus.DONE) day.plannedDone += 1;
+  });
+  done.forEach(t => {
+    const day = dayOf(t.logDate);
+    day.done += 1;
+    day.hours += t.duration || 0;
+  });
+
+  const bucket = length > WEEKLY_AFTER_DAYS ? 'week' : 'day';
+  const buckets = new Map<string, DayTotals>();
+  for (let i = 0; i < length; i++) {
+    const date = addDays(range.from, i);
+    // A range that starts mid-week gets a shorter first week labelled with its own first day.
+    const key = bucket === 'day' ? date : (weekStart(date) < range.from ? range.from : weekStart(date));
+    const total = buckets.get(key) || emptyDay();
+    const day = perDay.get(date);
+    if (day) {
+      total.hours += day.hours;
+      total.planned += day.planned;
+      total.plannedDone += day.plannedDone;
+      total.done += day.done;
+    }
+    buckets.set(key, total);
+  }
+
+  const categoryTotals = new Map<string, { hours: number; count: number }>();
+  done.forEach(t => {
+    const entry = categoryTotals.get(t.category) || { hours: 0, count: 0 };
+    entry.hours += t.duration || 0;
+    entry.count += 1;
+    categoryTotals.set(t.category, entry);
+  });
+
+  const heatmap: HeatmapDay[][] = [];
+  for (let start = weekStart(range.from); start <= range.to; start = addDays(start, 7)) {
+    heatmap.push(Array.from({ length: 7 }, (_, i) => {
+      const date = addDays(start, i);
+      const day = perDay.get(date);
+      return { date, hours: round(day?.hours || 0), done: day?.done || 0, inRange: date >= range.from && date <= range.to };
+    }));
+  }
+
+  return {
+    totals: {
+      hours: round(done.reduce((acc, t) => acc + (t.duration || 0), 0)),
+      done: done.length,
+      planned: planned.length,
+      completionRate: rate(planned.filter(t => t.status === TaskStatus.DONE).length, planned.length),
+      activeDays: [...perDay.values()].filter(d => d.done > 0).length
+    },
+    bucket,
+    trend: [...buckets.entries()].map(([label, b]) => ({ label, hours: round(b.hours), planned: b.planned, done: b.done, completionRate: rate(b.plannedDone, b.planned) })),
+    categories: [...categoryTotals.entries()]
+      .map(([category, entry]) => ({ category, hours: round(entry.hours), count: entry.count }))
+      .sort((a, b) => b.hours - a.hours || b.count - a.count),
+    priorities: [TaskPriority.HIGH, TaskPriority.MEDIUM, TaskPriority.LOW].map(priority => ({ priority, count: planned.filter(t => t.priority === priority).length })),
+    heatmap
+  };
+};
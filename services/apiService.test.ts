@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Task, TaskStatus, TaskPriority } from '../types';
+import { fakeSupabase } from './testing/fakeSupabase';
+import { apiService } from './apiService';
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { fakeSupabase } = await import('./testing/fakeSupabase');
+  return { createClient: () => fakeSupabase };
+});
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Fix login',
+  description: '',
+  status: TaskStatus.TODO,
+  priority: TaskPriority.HIGH,
+  category: 'Bug Fix',
+  createdAt: Date.UTC(2026, 9, 1),
+  logDate: '2026-10-19',
+  ...overrides
+});
+
+describe('apiService.applyChanges', () => {
+  beforeEach(() => fakeSupabase.reset());
+
+  it('skips the round trip for an empty batch', async () => {
+    expect(await apiService.applyChanges([])).toEqual({ applied: [], conflicts: [] });
+    expect(fakeSupabase.rpcCalls).toHaveLength(0);
+  });
+
+  it('sends the batch as database rows in a single call', async () => {
+    await apiService.applyChanges([
+      { entity: 'task', key: 't1', action: 'upsert', data: task({ dueDate: '2026-10-30' }) },
+      { entity: 'category', key: 'Bug Fix', action: 'upsert' }
+    ]);
+    expect(fakeSupabase.rpcCalls).toHaveLength(1);
+    const [taskChange, categoryChange] = fakeSupabase.rpcCalls[0].args.changes;
+    expect(taskChange.data).toMatchObject({ id: 't1', log_date: '2026-10-19', due_date: '2026-10-30', revision: 0 });
+    expect(categoryChange).toEqual({ entity: 'category', key: 'Bug Fix', action: 'upsert' });
+  });
+
+  it('reports the revision the server assigned to each accepted write', async () => {
+    const first = await apiService.applyChanges([{ entity: 'task', key: 't1', action: 'upsert', data: task() }]);
+    expect(first.conflicts).toEqual([]);
+    expect(first.applied).toEqual([{ entity: 'task', key: 't1', revision: 1, updatedAt: expect.any(Number) }]);
+
+    const second = await apiService.applyChanges([{ entity: 'task', key: 't1', action: 'upsert', data: task({ title: 'Fix login page', revision: 1 }) }]);
+    expect(second.applied[0].revision).toBe(2);
+    expect(fakeSupabase.rows('tasks')).toEqual([expect.objectContaining({ title: 'Fix login page', revision: 2 })]);
+  });
+
+  it('returns a write based on an old revision as a conflict with the server copy', async () => {
+    fakeSupabase.seed('tasks', { id: 't1', title: 'Renamed elsewhere', status: 'IN_PROGRESS', priority: 'HIGH', category: 'Bug Fix', log_date: '2026-10-19', created_at: '2026-10-01T00:00:00.000Z', revision: 3 });
+
+    const result = await apiService.applyChanges([{ entity: 'task', key: 't1', action: 'upsert', data: task({ revision: 2 }) }]);
+    expect(result.applied).toEqual([]);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ entity: 'task', key: 't1', remote: { id: 't1', title: 'Renamed elsewhere', status: TaskStatus.IN_PROGRESS, logDate: '2026-10-19', revision: 3 } });
+    expect(fakeSupabase.rows('tasks')[0].title).toBe('Renamed elsewhere');
+  });
+
+  it('applies the rest of a batch around a conflict', async () => {
+    fakeSupabase.seed('tasks', { id: 't1', title: 'Server copy', revision: 5 });
+    const result = await apiService.applyChanges([
+      { entity: 'task', key: 't1', action: 'upsert', data: task({ revision: 4 }) },
+      { entity: 'task', key: 't2', action: 'upsert', data: task({ id: 't2' }) },
+      { entity: 'point', key: 'p1', action: 'upsert', data: { id: 'p1', content: 'VPN host', module: 'General', createdAt: 1 } }
+    ]);
+    expect(result.applied.map(a => a.key)).toEqual(['t2', 'p1']);
+    expect(result.conflicts.map(c => c.key)).toEqual(['t1']);
+  });
+
+  it('deletes records and names', async () => {
+    fakeSupabase.seed('tasks', { id: 't1', revision: 2 });
+    fakeSupabase.seed('team_members', { name: 'Ann' });
+    await apiService.applyChanges([
+      { entity: 'task', key: 't1', action: 'delete' },
+      { entity: 'team', key: 'Ann', action: 'delete' }
+    ]);
+    expect(fakeSupabase.rows('tasks')).toEqual([]);
+    expect(fakeSupabase.rows('team_members')).toEqual([]);
+  });
+
+  it('throws when offline and leaves the server untouched', async () => {
+    fakeSupabase.offline = true;
+    await expect(apiService.applyChanges([{ entity: 'task', key: 't1', action: 'upsert', data: task() }])).rejects.toMatchObject({ message: expect.stringContaining('Failed to fetch') });
+    expect(fakeSupabase.rows('tasks')).toEqual([]);
+  });
+});
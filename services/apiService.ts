@@ -1,12 +1,14 @@
 
 import { createClient } from '@supabase/supabase-js';
-import { User, Task, TaskStatus, ImportantPoint } from '../types';
+import { User, Task, TaskStatus, ImportantPoint, DailyLog, SavedView, Workspace, EntityChange, AppliedChange, SyncEntity, SyncRecord, RemoteEvent } from '../types';
 
 const SUPABASE_URL = 'https://yvugbgjrakdcgirxpcvi.supabase.co';
 const SUPABASE_ANON_KEY = 'sb_publishable_f3m2s_7xpL28Tm8vQsjU1A_R7HVsVJP';
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
 
+const CALENDAR_FEED_BUCKET = 'calendar-feeds';
+
 const mapDbTaskToTask = (t: any): Task => ({
   id: t.id,
   title: t.title,
@@ -21,9 +23,117 @@ const mapDbTaskToTask = (t: any): Task => ({
   dueDate: t.due_date,
   blocker: t.blocker,
   postponedReason: t.postponed_reason,
-  duration: t.duration
+  postponements: t.postponements || undefined,
+  duration: t.duration,
+  timeSegments: t.time_segments || undefined,
+  recurrence: t.recurrence || undefined,
+  skippedDates: t.skipped_dates || undefined,
+  seriesId: t.series_id || undefined,
+  occurrenceDate: t.occurrence_date || undefined,
+  detached: t.detached || undefined,
+  sortOrder: t.sort_order ?? undefined,
+  icsUid: t.ics_uid || undefined,
+  revision: t.revision ?? 0,
+  updatedAt: t.updated_at ? new Date(t.updated_at).getTime() : undefined
+});
+
+const mapTaskToDbRow = (task: Task) => ({
+  id: task.id,
+  title: task.title,
+  description: task.description,
+  notes: task.notes, 
+  status: task.status,
+  priority: task.priority,
+  category: task.category,
+  log_date: task.logDate,
+  due_date: task.dueDate,
+  blocker: task.blocker,
+  postponed_reason: task.postponedReason,
+  postponements: task.postponements ?? null,
+  duration: task.duration,
+  time_segments: task.timeSegments ?? null,
+  recurrence: task.recurrence ?? null,
+  skipped_dates: task.skippedDates ?? null,
+  series_id: task.seriesId ?? null,
+  occurrence_date: task.occurrenceDate ?? null,
+  detached: task.detached ?? false,
+  sort_order: task.sortOrder ?? null,
+  ics_uid: task.icsUid ?? null,
+  completed_at: task.completedAt ? new Date(task.completedAt).toISOString() : null,
+  created_at: new Date(task.createdAt).toISOString(),
+  revision: task.revision ?? 0
+});
+
+const mapDbPointToPoint = (p: any): ImportantPoint => ({
+  id: p.id,
+  content: p.content,
+  note: p.note,
+  module: p.module || 'General',
+  createdAt: new Date(p.created_at).getTime(),
+  revision: p.revision ?? 0,
+  updatedAt: p.updated_at ? new Date(p.updated_at).getTime() : undefined
+});
+
+const mapPointToDbRow = (p: ImportantPoint) => ({
+  id: p.id,
+  content: p.content,
+  note: p.note,
+  module: p.module,
+  created_at: new Date(p.createdAt).toISOString(),
+  revision: p.revision ?? 0
+});
+
+const mapDbLogToLog = (l: any): DailyLog => ({
+  id: l.id,
+  date: l.date,
+  summary: l.summary || undefined,
+  summaries: l.summaries || undefined,
+  revision: l.revision ?? 0,
+  updatedAt: l.updated_at ? new Date(l.updated_at).getTime() : undefined
+});
+
+const mapLogToDbRow = (l: DailyLog) => ({
+  id: l.id,
+  date: l.date,
+  summary: l.summary ?? null,
+  summaries: l.summaries ?? null,
+  revision: l.revision ?? 0
+});
+
+const mapDbViewToView = (v: any): SavedView => ({
+  id: v.id,
+  name: v.name,
+  conditions: v.conditions || [],
+  sort: v.sort || [],
+  createdAt: v.created_at ? new Date(v.created_at).getTime() : Date.now(),
+  revision: v.revision ?? 0,
+  updatedAt: v.updated_at ? new Date(v.updated_at).getTime() : undefined
+});
+
+const mapViewToDbRow = (v: SavedView) => ({
+  id: v.id,
+  name: v.name,
+  conditions: v.conditions,
+  sort: v.sort,
+  created_at: new Date(v.createdAt).toISOString(),
+  revision: v.revision ?? 0
 });
 
+const mapDbRecord = (entity: SyncEntity, row: any): SyncRecord =>
+  entity === 'task' ? mapDbTaskToTask(row)
+    : entity === 'log' ? mapDbLogToLog(row)
+    : entity === 'view' ? mapDbViewToView(row)
+    : mapDbPointToPoint(row);
+
+const mapChangeToDb = (change: EntityChange) => {
+  if (change.action === 'delete' || !change.data) return { entity: change.entity, key: change.key, action: change.action };
+  const data = change.entity === 'task' ? mapTaskToDbRow(change.data as Task)
+    : change.entity === 'log' ? mapLogToDbRow(change.data as DailyLog)
+    : change.entity === 'view' ? mapViewToDbRow(change.data as SavedView)
+    : mapPointToDbRow(change.data as ImportantPoint);
+  return { entity: change.entity, key: change.key, action: change.action, data };
+};
+
 export const apiService = {
   register: async (name: string, email: string, password: string, avatarColor: string): Promise<void> => {
     const { data, error } = await supabase.auth.signUp({
@@ -43,7 +153,7 @@ export const apiService = {
     }
   },
 
-  login: async (email: string, password: string): Promise<{ user: User; tasks: Task[]; team: string[]; categories: string[]; points: ImportantPoint[]; modules: string[] }> => {
+  login: async (email: string, password: string): Promise<{ user: User } & Workspace> => {
     const { data: authData, error: authError } = await supabase.auth.signInWithPassword({ email, password });
     if (authError) throw authError;
     const user = authData.user;
@@ -83,109 +193,119 @@ export const apiService = {
     };
   },
 
-  fetchWorkspace: async (userId: string): Promise<{ tasks: Task[]; team: string[]; categories: string[]; points: ImportantPoint[]; modules: string[] }> => {
-    const { data: tasksData } = await supabase.from('tasks').select('*').eq('user_id', userId).order('created_at', { ascending: false });
-    const { data: teamData } = await supabase.from('team_members').select('name').eq('user_id', userId);
-    const { data: catData } = await supabase.from('task_categories').select('name').eq('user_id', userId);
-    const { data: pointsData } = await supabase.from('important_points').select('*').eq('user_id', userId).order('created_at', { ascending: false });
-    const { data: moduleData } = await supabase.from('knowledge_modules').select('name').eq('user_id', userId);
-
-    const defaultCategories = ['Meeting', 'Development', 'Bug Fix', 'Testing', 'Documentation', 'Planning', 'Admin'];
-    const defaultModules = ['General', 'Technical', 'Process', 'Credentials'];
+  fetchWorkspace: async (userId: string): Promise<Workspace> => {
+    const { data: tasksData, error: tasksError } = await supabase.from('tasks').select('*').eq('user_id', userId).order('created_at', { ascending: false });
+    const { data: teamData, error: teamError } = await supabase.from('team_members').select('name').eq('user_id', userId);
+    const { data: catData, error: catError } = await supabase.from('task_categories').select('name').eq('user_id', userId);
+    const { data: pointsData, error: pointsError } = await supabase.from('important_points').select('*').eq('user_id', userId).order('created_at', { ascending: false });
+    const { data: moduleData, error: moduleError } = await supabase.from('knowledge_modules').select('name').eq('user_id', userId);
+    const { data: logData, error: logError } = await supabase.from('daily_logs').select('*').eq('user_id', userId).order('date', { ascending: false });
+    const { data: viewData, error: viewError } = await supabase.from('saved_views').select('*').eq('user_id', userId).order('created_at', { ascending: true });
+    // An unreachable server must not look like an empty workspace, or callers would overwrite local data with it.
+    const fetchError = tasksError || teamError || catError || pointsError || moduleError || logError || viewError;
+    if (fetchError) throw fetchError;
 
     return {
       tasks: (tasksData || []).map(mapDbTaskToTask),
-      team: teamData && teamData.length > 0 ? teamData.map(t => t.name) : ['Self'],
-      categories: catData && catData.length > 0 ? catData.map(c => c.name) : defaultCategories,
-      modules: moduleData && moduleData.length > 0 ? moduleData.map(m => m.name) : defaultModules,
-      points: (pointsData || []).map(p => ({
-        id: p.id,
-        content: p.content,
-        note: p.note, // Mapped from DB
-        module: p.module || 'General',
-        createdAt: new Date(p.created_at).getTime()
-      }))
+      team: (teamData || []).map(t => t.name),
+      categories: (catData || []).map(c => c.name),
+      modules: (moduleData || []).map(m => m.name),
+      points: (pointsData || []).map(mapDbPointToPoint),
+      logs: (logData || []).map(mapDbLogToLog),
+      views: (viewData || []).map(mapDbViewToView)
     };
   },
 
-  syncWorkspace: async (userId: string, tasks: Task[], team: string[], categories: string[], points: ImportantPoint[], modules: string[]): Promise<void> => {
-    try {
-      await apiService.syncTeam(userId, team);
-      await apiService.syncCategories(userId, categories);
-      await apiService.syncModules(userId, modules);
-      await apiService.syncPoints(userId, points);
-      const results = await Promise.allSettled(tasks.map(task => apiService.syncTask(userId, task)));
-      const failures = results.filter(r => r.status === 'rejected');
-      if (failures.length > 0) throw new Error(`${failures.length} tasks failed to sync.`);
-    } catch (e) {
-      console.error("Workspace sync failed:", e);
-      throw e;
-    }
-  },
-
-  syncTask: async (userId: string, task: Task): Promise<void> => {
-    const payload = {
-      id: task.id,
-      user_id: userId,
-      title: task.title,
-      description: task.description,
-      notes: task.notes, 
-      status: task.status,
-      priority: task.priority,
-      category: task.category,
-      log_date: task.logDate,
-      due_date: task.dueDate,
-      blocker: task.blocker,
-      postponed_reason: task.postponedReason,
-      duration: task.duration,
-      completed_at: task.completedAt ? new Date(task.completedAt).toISOString() : null,
-      created_at: new Date(task.createdAt).toISOString()
-    };
-    const { error } = await supabase.from('tasks').upsert(payload);
+  /**
+   * Sends a batch of entity changes to the `apply_workspace_changes` function, which applies
+   * them inside a single database transaction: either the whole batch lands or none of it does.
+   * Writes based on an outdated revision are skipped and returned with the current server row.
+   */
+  applyChanges: async (changes: EntityChange[]): Promise<{ applied: AppliedChange[]; conflicts: { entity: SyncEntity; key: string; remote: SyncRecord }[] }> => {
+    if (changes.length === 0) return { applied: [], conflicts: [] };
+    const { data, error } = await supabase.rpc('apply_workspace_changes', { changes: changes.map(mapChangeToDb) });
     if (error) throw error;
+    return {
+      applied: (data?.applied || []).map((a: any) => ({
+        entity: a.entity,
+        key: a.key,
+        revision: a.revision,
+        updatedAt: new Date(a.updated_at).getTime()
+      })),
+      conflicts: (data?.conflicts || []).map((c: any) => ({
+        entity: c.entity,
+        key: c.key,
+        remote: mapDbRecord(c.entity, c.remote)
+      }))
+    };
   },
 
-  deleteTask: async (userId: string, taskId: string): Promise<void> => {
-    await supabase.from('tasks').delete().eq('id', taskId).eq('user_id', userId);
-  },
+  /**
+   * Streams row changes for the user's tables. Deletes only carry the old row when the table uses
+   * REPLICA IDENTITY FULL, which the list tables need so removals can be matched by name.
+   */
+  subscribeToWorkspace: (userId: string, onEvent: (event: RemoteEvent) => void): (() => void) => {
+    const recordTables: { table: string; entity: 'task' | 'point' | 'log' | 'view' }[] = [
+      { table: 'tasks', entity: 'task' },
+      { table: 'important_points', entity: 'point' },
+      { table: 'daily_logs', entity: 'log' },
+      { table: 'saved_views', entity: 'view' }
+    ];
+    const listTables: { table: string; entity: 'team' | 'category' | 'module' }[] = [
+      { table: 'team_members', entity: 'team' },
+      { table: 'task_categories', entity: 'category' },
+      { table: 'knowledge_modules', entity: 'module' }
+    ];
+    const ownRow = (row: any) => !row?.user_id || row.user_id === userId;
+    let channel = supabase.channel(`workspace-${userId}`);
 
-  syncTeam: async (userId: string, names: string[]): Promise<void> => {
-    await supabase.from('team_members').delete().eq('user_id', userId);
-    if (names.length > 0) {
-      const inserts = names.map(n => ({ user_id: userId, name: n }));
-      await supabase.from('team_members').insert(inserts);
-    }
-  },
+    recordTables.forEach(({ table, entity }) => {
+      channel = channel.on('postgres_changes', { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` }, (payload: any) => {
+        if (payload.eventType === 'DELETE') {
+          if (payload.old?.id && ownRow(payload.old)) onEvent({ entity, type: 'delete', key: String(payload.old.id) });
+        } else if (entity === 'task') {
+          onEvent({ entity, type: 'upsert', record: mapDbTaskToTask(payload.new) });
+        } else if (entity === 'log') {
+          onEvent({ entity, type: 'upsert', record: mapDbLogToLog(payload.new) });
+        } else if (entity === 'view') {
+          onEvent({ entity, type: 'upsert', record: mapDbViewToView(payload.new) });
+        } else {
+          onEvent({ entity, type: 'upsert', record: mapDbPointToPoint(payload.new) });
+        }
+      });
+    });
 
-  syncCategories: async (userId: string, categories: string[]): Promise<void> => {
-    await supabase.from('task_categories').delete().eq('user_id', userId);
-    if (categories.length > 0) {
-      const inserts = categories.map(c => ({ user_id: userId, name: c }));
-      await supabase.from('task_categories').insert(inserts);
-    }
+    listTables.forEach(({ table, entity }) => {
+      channel = channel.on('postgres_changes', { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` }, (payload: any) => {
+        const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+        if (!row?.name || !ownRow(row)) return;
+        onEvent({ entity, type: payload.eventType === 'DELETE' ? 'delete' : 'upsert', key: row.name });
+      });
+    });
+
+    channel.subscribe();
+    return () => { supabase.removeChannel(channel); };
   },
 
-  syncModules: async (userId: string, modules: string[]): Promise<void> => {
-    await supabase.from('knowledge_modules').delete().eq('user_id', userId);
-    if (modules.length > 0) {
-      const inserts = modules.map(m => ({ user_id: userId, name: m }));
-      await supabase.from('knowledge_modules').insert(inserts);
-    }
+  calendarFeedUrl: (userId: string, token: string): string =>
+    supabase.storage.from(CALENDAR_FEED_BUCKET).getPublicUrl(`${userId}/${token}.ics`).data.publicUrl,
+
+  /**
+   * Uploads the plan as a public .ics file that calendar apps can subscribe to. The random token in
+   * the path is the only thing keeping the feed private, so a new token is how access is revoked.
+   */
+  publishCalendarFeed: async (userId: string, token: string, ics: string): Promise<void> => {
+    const { error } = await supabase.storage.from(CALENDAR_FEED_BUCKET).upload(`${userId}/${token}.ics`, new Blob([ics], { type: 'text/calendar' }), {
+      upsert: true,
+      contentType: 'text/calendar',
+      cacheControl: '300'
+    });
+    if (error) throw error;
   },
 
-  syncPoints: async (userId: string, points: ImportantPoint[]): Promise<void> => {
-    await supabase.from('important_points').delete().eq('user_id', userId);
-    if (points.length > 0) {
-      const inserts = points.map(p => ({ 
-        id: p.id,
-        user_id: userId, 
-        content: p.content,
-        note: p.note, // Sync to DB
-        module: p.module,
-        created_at: new Date(p.createdAt).toISOString()
-      }));
-      await supabase.from('important_points').insert(inserts);
-    }
+  removeCalendarFeed: async (userId: string, token: string): Promise<void> => {
+    const { error } = await supabase.storage.from(CALENDAR_FEED_BUCKET).remove([`${userId}/${token}.ics`]);
+    if (error) throw error;
   },
 
   signOut: async () => {
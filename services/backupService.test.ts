@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { Task, TaskStatus, TaskPriority, Workspace } from '../types';
+import { parseBackup, planImport, BackupFile, BACKUP_VERSION } from './backupService';
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Fix login',
+  description: '',
+  status: TaskStatus.TODO,
+  priority: TaskPriority.HIGH,
+  category: 'Bug Fix',
+  createdAt: 1,
+  logDate: '2026-10-19',
+  ...overrides
+});
+
+const workspace = (overrides: Partial<Workspace> = {}): Workspace => ({
+  tasks: [], team: [], categories: [], points: [], modules: [], logs: [], views: [], ...overrides
+});
+
+const backup = (ws: Workspace): BackupFile => ({ app: 'worksync', version: BACKUP_VERSION, exportedAt: '2026-10-19T08:00:00.000Z', workspace: ws });
+
+describe('parseBackup', () => {
+  it('upgrades a version 1 file that predates logs and views', () => {
+    const v1 = { app: 'worksync', version: 1, exportedAt: '2025-01-01T00:00:00.000Z', workspace: { tasks: [task()], points: [], team: ['Ann'], categories: ['Bug Fix'], modules: [] } };
+    const parsed = parseBackup(JSON.stringify(v1));
+    expect(parsed.version).toBe(BACKUP_VERSION);
+    expect(parsed.workspace).toMatchObject({ tasks: [task()], team: ['Ann'], logs: [], views: [] });
+  });
+
+  it('wraps a bare workspace object and gives points a module', () => {
+    const parsed = parseBackup(JSON.stringify({ tasks: [], points: [{ id: 'p1', content: 'VPN host', createdAt: 1 }], team: [], categories: [] }));
+    expect(parsed.workspace.points).toEqual([{ id: 'p1', content: 'VPN host', module: 'General', createdAt: 1 }]);
+    expect(parsed.workspace.modules).toEqual([]);
+  });
+
+  it('rejects files that are not valid JSON', () => {
+    expect(() => parseBackup('{"tasks": [')).toThrow('The file is not valid JSON.');
+  });
+
+  it('rejects files from a newer version of the app', () => {
+    expect(() => parseBackup(JSON.stringify({ ...backup(workspace()), version: BACKUP_VERSION + 1 }))).toThrow(/newer version/);
+  });
+
+  it('rejects a workspace whose lists have the wrong shape', () => {
+    expect(() => parseBackup(JSON.stringify({ ...backup(workspace()), workspace: { tasks: {}, team: [42] } }))).toThrow(
+      'The backup is not valid: tasks must be a list; points must be a list; logs must be a list; views must be a list; team must be a list of names; categories must be a list of names; modules must be a list of names.'
+    );
+  });
+
+  it('lists every problem with the records in a file', () => {
+    const bad = backup(workspace({ tasks: [task({ status: 'LATER' as TaskStatus, logDate: '19/10/2026' })] }));
+    expect(() => parseBackup(JSON.stringify(bad))).toThrow('Task 1: unknown status "LATER"; Task 1: logDate must be YYYY-MM-DD');
+  });
+});
+
+describe('planImport', () => {
+  const current = workspace({
+    tasks: [task({ revision: 4 }), task({ id: 't2', title: 'Write release notes' })],
+    team: ['Ann'],
+    categories: ['Bug Fix']
+  });
+  const file = backup(workspace({
+    tasks: [task({ title: 'Fix login page', revision: 9 }), task({ id: 't3', title: 'Plan sprint' }), task({ id: 't3', title: 'Plan sprint again' })],
+    team: ['Bob'],
+    categories: ['Bug Fix', 'Planning']
+  }));
+
+  it('merges by adding new records and keeping the existing copy of a duplicate', () => {
+    const { workspace: merged, report } = planImport(current, file, 'merge');
+    expect(merged.tasks.map(t => [t.id, t.title])).toEqual([['t3', 'Plan sprint'], ['t1', 'Fix login'], ['t2', 'Write release notes']]);
+    expect(merged.team).toEqual(['Ann', 'Bob']);
+    expect(merged.categories).toEqual(['Bug Fix', 'Planning']);
+    expect(report).toMatchObject({ mode: 'merge', added: { tasks: 1, points: 0 }, removed: { tasks: 0, points: 0 }, repeatedInFile: ['t3'] });
+    expect(report.duplicates).toEqual([{ entity: 'task', id: 't1', label: 'Fix login page', identical: false }]);
+  });
+
+  it('replaces the workspace with the file and counts what goes', () => {
+    const { workspace: replaced, report } = planImport(current, file, 'replace');
+    expect(replaced.tasks.map(t => [t.id, t.title])).toEqual([['t1', 'Fix login page'], ['t3', 'Plan sprint']]);
+    expect(replaced.team).toEqual(['Bob']);
+    expect(report).toMatchObject({ mode: 'replace', added: { tasks: 1, points: 0 }, removed: { tasks: 1, points: 0 } });
+  });
+
+  it('takes revisions from the current workspace rather than the file', () => {
+    const { workspace: replaced } = planImport(current, file, 'replace');
+    expect(replaced.tasks.map(t => t.revision)).toEqual([4, 0]);
+  });
+});
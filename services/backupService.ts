@@ -0,0 +1,228 @@
+import { Workspace, Task, TaskStatus, TaskPriority, SyncRecord, DailyLog, SavedView } from '../types';
+import { downloadFile } from './downloadService';
+import { sameValue } from './changeTracker';
+import { mergeLogVersions } from './summaryHistoryService';
+
+export const BACKUP_VERSION = 3;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupFile {
+  app: 'worksync';
+  version: number;
+  exportedAt: string;
+  workspace: Workspace;
+}
+
+export interface ImportDuplicate {
+  entity: 'task' | 'point';
+  id: string;
+  label: string;
+  identical: boolean;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  added: { tasks: number; points: number };
+  removed: { tasks: number; points: number };
+  duplicates: ImportDuplicate[]; // Ids that already exist in the workspace
+  repeatedInFile: string[]; // Ids listed more than once in the file; the first copy is used
+}
+
+/**
+ * Upgrades older files one version at a time. Version 0 is a bare workspace object without the
+ * envelope, as produced by copying the result of `fetchWorkspace`.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  0: data => ({
+    app: 'worksync',
+    version: 1,
+    exportedAt: new Date(0).toISOString(),
+    workspace: {
+      tasks: data.tasks || [],
+      points: (data.points || []).map((p: any) => ({ module: 'General', ...p })),
+      team: data.team || [],
+      categories: data.categories || [],
+      modules: data.modules || []
+    }
+  }),
+  // Version 2 adds the daily logs that hold saved summaries.
+  1: data => ({ ...data, version: 2, workspace: { ...data.workspace, logs: [] } }),
+  // Version 3 adds saved views.
+  2: data => ({ ...data, version: 3, workspace: { ...data.workspace, views: [] } })
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TASK_STATUSES = Object.values(TaskStatus) as string[];
+const TASK_PRIORITIES = Object.values(TaskPriority) as string[];
+
+const validateTask = (t: any, at: string): string[] => {
+  const errors: string[] = [];
+  if (typeof t?.id !== 'string' || !t.id) errors.push(`${at}: missing id`);
+  if (typeof t?.title !== 'string') errors.push(`${at}: missing title`);
+  if (!TASK_STATUSES.includes(t?.status)) errors.push(`${at}: unknown status "${t?.status}"`);
+  if (!TASK_PRIORITIES.includes(t?.priority)) errors.push(`${at}: unknown priority "${t?.priority}"`);
+  if (typeof t?.category !== 'string') errors.push(`${at}: missing category`);
+  if (!DATE_PATTERN.test(t?.logDate || '')) errors.push(`${at}: logDate must be YYYY-MM-DD`);
+  if (t?.dueDate && !DATE_PATTERN.test(t.dueDate)) errors.push(`${at}: dueDate must be YYYY-MM-DD`);
+  if (typeof t?.createdAt !== 'number') errors.push(`${at}: createdAt must be a timestamp`);
+  if (t?.duration !== undefined && t.duration !== null && typeof t.duration !== 'number') errors.push(`${at}: duration must be a number`);
+  if (t?.sortOrder !== undefined && t.sortOrder !== null && typeof t.sortOrder !== 'number') errors.push(`${at}: sortOrder must be a number`);
+  return errors;
+};
+
+const validatePoint = (p: any, at: string): string[] => {
+  const errors: string[] = [];
+  if (typeof p?.id !== 'string' || !p.id) errors.push(`${at}: missing id`);
+  if (typeof p?.content !== 'string') errors.push(`${at}: missing content`);
+  if (typeof p?.module !== 'string') errors.push(`${at}: missing module`);
+  if (typeof p?.createdAt !== 'number') errors.push(`${at}: createdAt must be a timestamp`);
+  return errors;
+};
+
+const validateLog = (l: any, at: string): string[] => {
+  const errors: string[] = [];
+  if (!DATE_PATTERN.test(l?.date || '') || l?.id !== l?.date) errors.push(`${at}: id and date must be the same YYYY-MM-DD`);
+  if (l?.summaries !== undefined && !Array.isArray(l.summaries)) errors.push(`${at}: summaries must be a list`);
+  return errors;
+};
+
+const validateView = (v: any, at: string): string[] => {
+  const errors: string[] = [];
+  if (typeof v?.id !== 'string' || !v.id) errors.push(`${at}: missing id`);
+  if (typeof v?.name !== 'string') errors.push(`${at}: missing name`);
+  if (!Array.isArray(v?.conditions) || !Array.isArray(v?.sort)) errors.push(`${at}: conditions and sort must be lists`);
+  return errors;
+};
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+export const exportBackup = (workspace: Workspace) => {
+  const backup: BackupFile = { app: 'worksync', version: BACKUP_VERSION, exportedAt: new Date().toISOString(), workspace };
+  const date = backup.exportedAt.split('T')[0];
+  downloadFile(`worksync-backup-${date}.json`, JSON.stringify(backup, null, 2), 'application/json');
+};
+
+/** Parses, migrates and validates a backup file. Throws with a readable list of problems. */
+export const parseBackup = (text: string): BackupFile => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!data || typeof data !== 'object') throw new Error('The file does not contain a workspace.');
+
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version > BACKUP_VERSION) throw new Error(`The backup was made by a newer version of the app (format ${version}).`);
+  while (version < BACKUP_VERSION) {
+    data = MIGRATIONS[version](data);
+    version = data.version;
+  }
+
+  const ws = data.workspace;
+  const errors: string[] = [];
+  if (!Array.isArray(ws?.tasks)) errors.push('tasks must be a list');
+  if (!Array.isArray(ws?.points)) errors.push('points must be a list');
+  if (!Array.isArray(ws?.logs)) errors.push('logs must be a list');
+  if (!Array.isArray(ws?.views)) errors.push('views must be a list');
+  (['team', 'categories', 'modules'] as const).forEach(key => {
+    if (!isStringList(ws?.[key])) errors.push(`${key} must be a list of names`);
+  });
+  if (errors.length === 0) {
+    ws.tasks.forEach((t: any, i: number) => errors.push(...validateTask(t, `Task ${i + 1}`)));
+    ws.points.forEach((p: any, i: number) => errors.push(...validatePoint(p, `Point ${i + 1}`)));
+    ws.logs.forEach((l: any, i: number) => errors.push(...validateLog(l, `Log ${i + 1}`)));
+    ws.views.forEach((v: any, i: number) => errors.push(...validateView(v, `View ${i + 1}`)));
+  }
+  if (errors.length > 0) {
+    const more = errors.length > 8 ? ` (and ${errors.length - 8} more)` : '';
+    throw new Error(`The backup is not valid: ${errors.slice(0, 8).join('; ')}${more}.`);
+  }
+  return data as BackupFile;
+};
+
+const dedupe = <T extends { id: string }>(list: T[], repeated: string[]): T[] => {
+  const seen = new Set<string>();
+  return list.filter(item => {
+    if (seen.has(item.id)) {
+      repeated.push(item.id);
+      return false;
+    }
+    seen.add(item.id);
+    return true;
+  });
+};
+
+// Revision counters belong to this workspace's server rows, not to whichever workspace wrote the file.
+const rebaseRevisions = <T extends SyncRecord>(list: T[], current: T[]): T[] => {
+  const revisions = new Map(current.map(r => [r.id, r.revision]));
+  return list.map(r => ({ ...r, revision: revisions.get(r.id) ?? 0, updatedAt: undefined }));
+};
+
+const contentEqual = (a: object, b: object) => {
+  const strip = ({ revision, updatedAt, ...rest }: any) => rest;
+  return sameValue(strip(a), strip(b));
+};
+
+// Logs hold generated summaries rather than user records, so a merge keeps every version from both sides.
+const mergeLogs = (current: DailyLog[], incoming: DailyLog[]): DailyLog[] => {
+  const incomingById = new Map(incoming.map(l => [l.id, l]));
+  const currentIds = new Set(current.map(l => l.id));
+  return [
+    ...incoming.filter(l => !currentIds.has(l.id)),
+    ...current.map(l => incomingById.has(l.id) ? mergeLogVersions(l, incomingById.get(l.id)!) : l)
+  ];
+};
+
+/**
+ * Combines a backup with the current workspace. Merge keeps existing records when ids collide and
+ * only adds new ones, though saved summary versions of a day are combined; replace swaps in the
+ * backup wholesale. Either way collisions are reported.
+ */
+export const planImport = (current: Workspace, backup: BackupFile, mode: ImportMode): { workspace: Workspace; report: ImportReport } => {
+  const repeatedInFile: string[] = [];
+  const tasks = rebaseRevisions(dedupe(backup.workspace.tasks, repeatedInFile), current.tasks);
+  const points = rebaseRevisions(dedupe(backup.workspace.points, repeatedInFile), current.points);
+  const logs = rebaseRevisions(dedupe(backup.workspace.logs, repeatedInFile), current.logs);
+  const views = rebaseRevisions(dedupe(backup.workspace.views, repeatedInFile), current.views);
+
+  const currentTasks = new Map(current.tasks.map(t => [t.id, t]));
+  const currentPoints = new Map(current.points.map(p => [p.id, p]));
+  const duplicates: ImportDuplicate[] = [
+    ...tasks.filter(t => currentTasks.has(t.id)).map(t => ({ entity: 'task' as const, id: t.id, label: t.title, identical: contentEqual(t, currentTasks.get(t.id)!) })),
+    ...points.filter(p => currentPoints.has(p.id)).map(p => ({ entity: 'point' as const, id: p.id, label: p.content, identical: contentEqual(p, currentPoints.get(p.id)!) }))
+  ];
+
+  const newTasks = tasks.filter(t => !currentTasks.has(t.id));
+  const newPoints = points.filter(p => !currentPoints.has(p.id));
+  const union = (a: string[], b: string[]) => [...a, ...b.filter(name => !a.includes(name))];
+
+  if (mode === 'replace') {
+    const keptTaskIds = new Set(tasks.map(t => t.id));
+    const keptPointIds = new Set(points.map(p => p.id));
+    return {
+      workspace: { tasks, points, logs, views, team: backup.workspace.team, categories: backup.workspace.categories, modules: backup.workspace.modules },
+      report: {
+        mode,
+        added: { tasks: newTasks.length, points: newPoints.length },
+        removed: { tasks: current.tasks.filter(t => !keptTaskIds.has(t.id)).length, points: current.points.filter(p => !keptPointIds.has(p.id)).length },
+        duplicates,
+        repeatedInFile
+      }
+    };
+  }
+
+  return {
+    workspace: {
+      tasks: [...newTasks, ...current.tasks],
+      points: [...newPoints, ...current.points],
+      logs: mergeLogs(current.logs, logs),
+      views: [...current.views, ...views.filter(v => !current.views.some(c => c.id === v.id))],
+      team: union(current.team, backup.workspace.team),
+      categories: union(current.categories, backup.workspace.categories),
+      modules: union(current.modules, backup.workspace.modules)
+    },
+    report: { mode, added: { tasks: newTasks.length, points: newPoints.length }, removed: { tasks: 0, points: 0 }, duplicates, repeatedInFile }
+  };
+};
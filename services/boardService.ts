@@ -0,0 +1,54 @@
+import { Task, TaskStatus, TaskPriority } from '../types';
+
+export const BOARD_COLUMNS: { status: TaskStatus; label: string }[] = [
+  { status: TaskStatus.TODO, label: 'To Do' },
+  { status: TaskStatus.IN_PROGRESS, label: 'In Progress' },
+  { status: TaskStatus.DONE, label: 'Done' }
+];
+
+export interface BoardFilters {
+  category: string; // '' matches any
+  priority: TaskPriority | '';
+  blocker: string;
+  from: string; // Planned date range, inclusive; '' leaves that end open
+  to: string;
+}
+
+export const EMPTY_BOARD_FILTERS: BoardFilters = { category: '', priority: '', blocker: '', from: '', to: '' };
+
+/**
+ * Applies a status change the way every view does: completing a task moves it onto today's diary and
+ * stamps `completedAt`; reopening clears the stamp.
+ */
+export const withStatus = (task: Task, status: TaskStatus, today: string): Task => {
+  const isNowDone = status === TaskStatus.DONE;
+  return { ...task, status, logDate: isNowDone ? today : task.logDate, completedAt: isNowDone ? Date.now() : undefined };
+};
+
+// Cards never placed by hand keep their creation order.
+const boardPosition = (task: Task) => task.sortOrder ?? task.createdAt;
+
+/** Filtered cards per status column, in manual order. Series templates are rules, not cards. */
+export const buildBoard = (tasks: Task[], filters: BoardFilters): Record<TaskStatus, Task[]> => {
+  const board = { [TaskStatus.TODO]: [], [TaskStatus.IN_PROGRESS]: [], [TaskStatus.DONE]: [] } as Record<TaskStatus, Task[]>;
+  tasks
+    .filter(t => !t.recurrence)
+    .filter(t => !filters.category || t.category === filters.category)
+    .filter(t => !filters.priority || t.priority === filters.priority)
+    .filter(t => !filters.blocker || t.blocker === filters.blocker)
+    .filter(t => (!filters.from || t.logDate >= filters.from) && (!filters.to || t.logDate <= filters.to))
+    .forEach(t => board[t.status]?.push(t));
+  Object.values(board).forEach(column => column.sort((a, b) => boardPosition(a) - boardPosition(b)));
+  return board;
+};
+
+/**
+ * Sort key for a card dropped between `before` and `after` (either may be missing at the column ends).
+ * Keys are fractional, so a drop only rewrites the moved card.
+ */
+export const sortOrderBetween = (before?: Task, after?: Task): number => {
+  if (before && after) return (boardPosition(before) + boardPosition(after)) / 2;
+  if (before) return boardPosition(before) + 1000;
+  if (after) return boardPosition(after) - 1000;
+  return Date.now();
+};
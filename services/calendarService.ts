@@ -0,0 +1,64 @@
+import { Task, TaskStatus } from '../types';
+import { addDays } from './recurrenceService';
+import { weekStart } from './timesheetService';
+
+export type CalendarMode = 'month' | 'week';
+
+export interface CalendarDay {
+  date: string;
+  inPeriod: boolean; // False for the leading and trailing days of neighbouring months
+  hours: number; // Logged on completed tasks
+  done: number;
+  planned: Task[]; // Open tasks, the ones that can be dragged to another day
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const monthStart = (date: string) => `${date.slice(0, 7)}-01`;
+
+/** The anchor one period earlier (`step` -1) or later (+1). Months always anchor on their first day. */
+export const shiftPeriod = (mode: CalendarMode, anchor: string, step: number): string => {
+  if (mode === 'week') return addDays(weekStart(anchor), step * 7);
+  const [year, month] = anchor.split('-').map(Number);
+  const index = year * 12 + (month - 1) + step;
+  return `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}-01`;
+};
+
+export const periodLabel = (mode: CalendarMode, anchor: string): string => {
+  const [year, month] = anchor.split('-').map(Number);
+  if (mode === 'month') return `${MONTHS[month - 1]} ${year}`;
+  const start = weekStart(anchor);
+  return `Week of ${start.slice(8)} ${MONTHS[Number(start.slice(5, 7)) - 1].slice(0, 3)} ${start.slice(0, 4)}`;
+};
+
+/**
+ * Weeks (Monday first) covering the period around `anchor`, each day carrying its diary totals and the
+ * open tasks planned on it. Series templates are left out; their generated occurrences show instead.
+ */
+export const buildCalendar = (tasks: Task[], mode: CalendarMode, anchor: string): CalendarDay[][] => {
+  const first = mode === 'month' ? monthStart(anchor) : weekStart(anchor);
+  const last = mode === 'month' ? addDays(shiftPeriod('month', anchor, 1), -1) : addDays(first, 6);
+
+  const byDate = new Map<string, Task[]>();
+  tasks.forEach(t => {
+    if (t.recurrence || t.logDate < weekStart(first) || t.logDate > addDays(weekStart(last), 6)) return;
+    byDate.set(t.logDate, [...(byDate.get(t.logDate) || []), t]);
+  });
+
+  const weeks: CalendarDay[][] = [];
+  for (let start = weekStart(first); start <= last; start = addDays(start, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => {
+      const date = addDays(start, i);
+      const dayTasks = byDate.get(date) || [];
+      const done = dayTasks.filter(t => t.status === TaskStatus.DONE);
+      return {
+        date,
+        inPeriod: date >= first && date <= last,
+        hours: Math.round(done.reduce((acc, t) => acc + (t.duration || 0), 0) * 100) / 100,
+        done: done.length,
+        planned: dayTasks.filter(t => t.status !== TaskStatus.DONE)
+      };
+    }));
+  }
+  return weeks;
+};
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { Task, TaskStatus, TaskPriority, Workspace } from '../types';
+import { diffWorkspace } from './changeTracker';
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Fix login',
+  description: '',
+  status: TaskStatus.TODO,
+  priority: TaskPriority.MEDIUM,
+  category: 'Bug Fix',
+  createdAt: 1,
+  logDate: '2026-10-19',
+  ...overrides
+});
+
+const workspace = (overrides: Partial<Workspace> = {}): Workspace => ({
+  tasks: [], team: [], categories: [], points: [], modules: [], logs: [], views: [], ...overrides
+});
+
+describe('diffWorkspace', () => {
+  it('returns nothing for identical workspaces', () => {
+    const ws = workspace({ tasks: [task()], team: ['Ann'], categories: ['Bug Fix'] });
+    expect(diffWorkspace(ws, { ...ws, tasks: [{ ...ws.tasks[0] }] })).toEqual([]);
+  });
+
+  it('queues only the records that changed', () => {
+    const prev = workspace({ tasks: [task(), task({ id: 't2' })] });
+    const edited = task({ id: 't2', status: TaskStatus.DONE });
+    expect(diffWorkspace(prev, workspace({ tasks: [task(), edited] }))).toEqual([
+      { entity: 'task', key: 't2', action: 'upsert', data: edited, base: task({ id: 't2' }) }
+    ]);
+  });
+
+  it('queues new records as upserts and missing ones as deletes', () => {
+    const added = task({ id: 't2' });
+    expect(diffWorkspace(workspace({ tasks: [task()] }), workspace({ tasks: [added] }))).toEqual([
+      { entity: 'task', key: 't2', action: 'upsert', data: added },
+      { entity: 'task', key: 't1', action: 'delete' }
+    ]);
+  });
+
+  it('treats null from the server and undefined locally as the same value', () => {
+    const fromServer = { ...task(), notes: null, dueDate: null } as unknown as Task;
+    expect(diffWorkspace(workspace({ tasks: [fromServer] }), workspace({ tasks: [task()] }))).toEqual([]);
+  });
+
+  it('compares nested values by content', () => {
+    const postponed = task({ postponements: [{ fromDate: '2026-10-18', toDate: '2026-10-19', reason: 'Blocked', at: 1 }] });
+    const copy = task({ postponements: [{ ...postponed.postponements![0] }] });
+    expect(diffWorkspace(workspace({ tasks: [postponed] }), workspace({ tasks: [copy] }))).toEqual([]);
+
+    const changed = task({ postponements: [{ ...postponed.postponements![0], reason: 'Waiting on QA' }] });
+    expect(diffWorkspace(workspace({ tasks: [postponed] }), workspace({ tasks: [changed] }))).toHaveLength(1);
+  });
+
+  it('diffs name lists by name', () => {
+    const prev = workspace({ team: ['Ann', 'Bob'], categories: ['Bug Fix'], modules: ['General'] });
+    const next = workspace({ team: ['Bob', 'Cleo'], categories: ['Bug Fix'], modules: [] });
+    expect(diffWorkspace(prev, next)).toEqual([
+      { entity: 'team', key: 'Cleo', action: 'upsert' },
+      { entity: 'team', key: 'Ann', action: 'delete' },
+      { entity: 'module', key: 'General', action: 'delete' }
+    ]);
+  });
+
+  it('covers knowledge points, daily logs and saved views', () => {
+    const point = { id: 'p1', content: 'VPN host', module: 'General', createdAt: 1 };
+    const log = { id: '2026-10-19', date: '2026-10-19', summary: 'Done' };
+    const view = { id: 'v1', name: 'Blocked', conditions: [], sort: [], createdAt: 1 };
+    expect(diffWorkspace(workspace(), workspace({ points: [point], logs: [log], views: [view] })).map(c => [c.entity, c.key])).toEqual([
+      ['point', 'p1'],
+      ['log', '2026-10-19'],
+      ['view', 'v1']
+    ]);
+  });
+
+  it('accepts workspaces saved before logs and views were tracked', () => {
+    const legacy = { tasks: [], team: [], categories: [], points: [], modules: [] } as unknown as Workspace;
+    expect(diffWorkspace(legacy, workspace())).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import { Workspace, EntityChange, SyncEntity, SyncRecord } from '../types';
+
+// Rows read back from Postgres carry null where local copies leave a field undefined; treat both as empty.
+export const sameValue = (a: unknown, b: unknown) =>
+  a === b || (a == null && b == null) || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+export const entityChanged = <T extends object>(prev: T, next: T): boolean => {
+  if (prev === next) return false;
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  for (const key of keys) {
+    if (!sameValue((prev as Record<string, unknown>)[key], (next as Record<string, unknown>)[key])) return true;
+  }
+  return false;
+};
+
+const diffRecords = <T extends SyncRecord>(entity: SyncEntity, prev: T[], next: T[]): EntityChange[] => {
+  const changes: EntityChange[] = [];
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set<string>();
+  next.forEach(item => {
+    nextIds.add(item.id);
+    const before = prevById.get(item.id);
+    if (!before || entityChanged(before, item)) {
+      // The previous copy is the merge base should the server have moved on in the meantime.
+      changes.push({ entity, key: item.id, action: 'upsert', data: item, base: before });
+    }
+  });
+  prev.forEach(item => {
+    if (!nextIds.has(item.id)) changes.push({ entity, key: item.id, action: 'delete' });
+  });
+  return changes;
+};
+
+const diffNames = (entity: SyncEntity, prev: string[], next: string[]): EntityChange[] => {
+  const before = new Set(prev);
+  const after = new Set(next);
+  return [
+    ...next.filter(name => !before.has(name)).map(name => ({ entity, key: name, action: 'upsert' as const })),
+    ...prev.filter(name => !after.has(name)).map(name => ({ entity, key: name, action: 'delete' as const }))
+  ];
+};
+
+/**
+ * Lists the entity-level changes that turn `prev` into `next`. Unchanged records are skipped,
+ * so only dirty and deleted entities end up in the outbox.
+ */
+export const diffWorkspace = (prev: Workspace, next: Workspace): EntityChange[] => [
+  ...diffRecords('task', prev.tasks, next.tasks),
+  ...diffRecords('point', prev.points, next.points),
+  ...diffRecords('log', prev.logs || [], next.logs || []),
+  ...diffRecords('view', prev.views || [], next.views || []),
+  ...diffNames('team', prev.team, next.team),
+  ...diffNames('category', prev.categories, next.categories),
+  ...diffNames('module', prev.modules, next.modules)
+];
@@ -0,0 +1,41 @@
+import { SyncRecord, DailyLog } from '../types';
+import { sameValue } from './changeTracker';
+
+// Daily logs merge by keeping both devices' summary versions instead (see mergeLogVersions).
+type MergeableRecord = Exclude<SyncRecord, DailyLog>;
+
+const META_FIELDS = new Set(['revision', 'updatedAt']);
+
+/**
+ * Three-way merge of a stale local write against the row currently on the server. Fields only one
+ * side touched are combined automatically; fields both sides changed to different values are
+ * reported as conflicts and keep the remote value in `merged` until the user picks.
+ */
+export const mergeRecords = <T extends MergeableRecord>(base: T | undefined, local: T, remote: T): { merged: T; fields: string[] } => {
+  const merged: Record<string, unknown> = { ...remote };
+  const fields: string[] = [];
+  const read = (record: T | undefined, key: string) => record ? (record as unknown as Record<string, unknown>)[key] : undefined;
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  keys.forEach(key => {
+    if (META_FIELDS.has(key)) return;
+    const localValue = read(local, key);
+    const remoteValue = read(remote, key);
+    if (sameValue(localValue, remoteValue)) return;
+    // Without a base every difference is ambiguous.
+    const localChanged = !base || !sameValue(localValue, read(base, key));
+    const remoteChanged = !base || !sameValue(remoteValue, read(base, key));
+    if (localChanged && remoteChanged) fields.push(key);
+    else if (localChanged) merged[key] = localValue;
+  });
+
+  return { merged: merged as T, fields };
+};
+
+export const resolveConflict = <T extends MergeableRecord>(merged: T, local: T, choices: Record<string, 'local' | 'remote'>): T => {
+  const resolved: Record<string, unknown> = { ...merged };
+  Object.entries(choices).forEach(([field, side]) => {
+    if (side === 'local') resolved[field] = (local as unknown as Record<string, unknown>)[field];
+  });
+  return resolved as T;
+};
@@ -0,0 +1,37 @@
+import { Task, TaskStatus, TaskPriority } from '../types';
+import { daysBetween } from './recurrenceService';
+
+export type DueState = 'overdue' | 'today' | 'soon' | 'later';
+
+export const DUE_SOON_DAYS = 3;
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  [TaskPriority.HIGH]: 0,
+  [TaskPriority.MEDIUM]: 1,
+  [TaskPriority.LOW]: 2
+};
+
+/** Where an open task stands against its due date; completed and undated tasks have no state. */
+export const dueState = (task: Task, today: string): DueState | null => {
+  if (!task.dueDate || task.status === TaskStatus.DONE) return null;
+  const days = daysBetween(today, task.dueDate);
+  if (days < 0) return 'overdue';
+  if (days === 0) return 'today';
+  return days <= DUE_SOON_DAYS ? 'soon' : 'later';
+};
+
+/**
+ * Every open task regardless of the day it is planned for, most urgent first: dated tasks by due date,
+ * then undated ones. Ties go to priority and then to the planned date.
+ */
+export const sortByUrgency = (tasks: Task[]): Task[] =>
+  tasks
+    .filter(t => !t.recurrence && t.status !== TaskStatus.DONE)
+    .sort((a, b) => {
+      if (a.dueDate !== b.dueDate) {
+        if (!a.dueDate) return 1;
+        if (!b.dueDate) return -1;
+        return a.dueDate < b.dueDate ? -1 : 1;
+      }
+      return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.logDate.localeCompare(b.logDate);
+    });
@@ -0,0 +1,87 @@
+import { User, Workspace } from '../types';
+import { localStore } from './localStore';
+import { syncQueue } from './syncQueue';
+import { diffWorkspace } from './changeTracker';
+
+const GUEST_PROFILE_KEY = 'worksync-guest-profile';
+const GUEST_ACTIVE_KEY = 'worksync-guest-active';
+const GUEST_UPGRADE_KEY = 'worksync-guest-upgrade';
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const union = (a: string[], b: string[]) => [...a, ...b.filter(name => !a.includes(name))];
+
+export const guestService = {
+  /**
+   * Starts (or resumes) the device's guest session. The profile is kept across sign-outs so the
+   * guest workspace in the local store stays reachable until it is migrated into an account.
+   */
+  startSession: (): User => {
+    let guest = readJson<User>(GUEST_PROFILE_KEY);
+    if (!guest) {
+      const id = typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : Date.now().toString(36) + Math.random().toString(36).substring(2);
+      guest = { id: `guest-${id}`, name: 'Guest', email: 'Stored on this device', isGuest: true, avatarColor: '#64748b', isVerified: false };
+      localStorage.setItem(GUEST_PROFILE_KEY, JSON.stringify(guest));
+    }
+    localStorage.setItem(GUEST_ACTIVE_KEY, 'true');
+    return guest;
+  },
+
+  getActiveGuest: (): User | null => {
+    if (localStorage.getItem(GUEST_ACTIVE_KEY) !== 'true') return null;
+    return readJson<User>(GUEST_PROFILE_KEY);
+  },
+
+  endSession: () => {
+    localStorage.removeItem(GUEST_ACTIVE_KEY);
+  },
+
+  /** Remembers which account the guest workspace should move into once that account signs in. */
+  markPendingUpgrade: (email: string) => {
+    const guest = readJson<User>(GUEST_PROFILE_KEY);
+    if (!guest) return;
+    localStorage.setItem(GUEST_UPGRADE_KEY, JSON.stringify({ guestId: guest.id, email: email.trim().toLowerCase() }));
+  },
+
+  /**
+   * Moves the guest workspace into the signed-in account if it was registered from guest mode.
+   * Tasks, points, logs and views are matched by id and list entries by name, so a repeated migration adds nothing twice.
+   * The merged result is written to the local store and the additions are queued for the server.
+   */
+  migratePendingUpgrade: async (user: User, server: Workspace): Promise<boolean> => {
+    const pending = readJson<{ guestId: string; email: string }>(GUEST_UPGRADE_KEY);
+    if (!pending || pending.email !== user.email.toLowerCase()) return false;
+
+    const guestWorkspace = await localStore.loadWorkspace(pending.guestId);
+    if (guestWorkspace) {
+      const taskIds = new Set(server.tasks.map(t => t.id));
+      const pointIds = new Set(server.points.map(p => p.id));
+      const logIds = new Set(server.logs.map(l => l.id));
+      const viewIds = new Set(server.views.map(v => v.id));
+      const merged: Workspace = {
+        tasks: [...guestWorkspace.tasks.filter(t => !taskIds.has(t.id)), ...server.tasks],
+        points: [...guestWorkspace.points.filter(p => !pointIds.has(p.id)), ...server.points],
+        logs: [...(guestWorkspace.logs || []).filter(l => !logIds.has(l.id)), ...server.logs],
+        views: [...(guestWorkspace.views || []).filter(v => !viewIds.has(v.id)), ...server.views],
+        team: union(server.team, guestWorkspace.team),
+        categories: union(server.categories, guestWorkspace.categories),
+        modules: union(server.modules, guestWorkspace.modules)
+      };
+      await localStore.saveWorkspace(user.id, merged);
+      await syncQueue.enqueue(user.id, diffWorkspace(server, merged));
+      await localStore.clearWorkspace(pending.guestId);
+    }
+
+    localStorage.removeItem(GUEST_UPGRADE_KEY);
+    localStorage.removeItem(GUEST_PROFILE_KEY);
+    localStorage.removeItem(GUEST_ACTIVE_KEY);
+    return true;
+  }
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Task, TaskStatus, TaskPriority } from '../types';
+import { exportIcs, parseIcs, importIcsEvents, IcsEvent } from './icsService';
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Fix login',
+  description: '',
+  status: TaskStatus.TODO,
+  priority: TaskPriority.HIGH,
+  category: 'Bug Fix',
+  createdAt: 1,
+  logDate: '2026-10-20',
+  ...overrides
+});
+
+const calendar = (...events: string[][]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+const event = (overrides: Partial<IcsEvent> = {}): IcsEvent => ({
+  uid: 'standup@example.com',
+  summary: 'Standup',
+  date: '2026-10-20',
+  durationHours: 0.25,
+  cancelled: false,
+  ...overrides
+});
+
+describe('exportIcs and parseIcs', () => {
+  it('round-trips text that needs escaping and folding', () => {
+    const description = 'Steps; then retest, twice.\nPath: C:\\new\\notes ' + 'x'.repeat(120);
+    const ics = exportIcs([task({ title: 'Fix login, again; really', description })]);
+
+    expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true);
+    const [parsed] = parseIcs(ics);
+    expect(parsed).toMatchObject({ uid: 't1@worksync', summary: 'Fix login, again; really', date: '2026-10-20', cancelled: false });
+    expect(parsed.description).toBe(description);
+    expect(parsed.durationHours).toBeUndefined();
+  });
+
+  it('keeps an escaped backslash before "n" as text', () => {
+    const [parsed] = parseIcs(calendar(['UID:a', 'DTSTART;VALUE=DATE:20261020', 'SUMMARY:Share \\\\network drive\\nthen lunch']));
+    expect(parsed.summary).toBe('Share \\network drive\nthen lunch');
+  });
+
+  it('leaves out done tasks, series templates and imported meetings', () => {
+    const ics = exportIcs([
+      task(),
+      task({ id: 't2', status: TaskStatus.DONE }),
+      task({ id: 't3', recurrence: { frequency: 'daily', interval: 1 } }),
+      task({ id: 't4', icsUid: 'standup@example.com' })
+    ]);
+    expect(parseIcs(ics).map(e => e.uid)).toEqual(['t1@worksync']);
+  });
+});
+
+describe('parseIcs', () => {
+  const originalTz = process.env.TZ;
+  beforeAll(() => { process.env.TZ = 'Asia/Kolkata'; });
+  afterAll(() => { process.env.TZ = originalTz; });
+
+  it('reads the length from DTEND or DURATION', () => {
+    const events = parseIcs(calendar(
+      ['UID:a', 'DTSTART:20261020T093000', 'DTEND:20261020T110000', 'SUMMARY:Planning'],
+      ['UID:b', 'DTSTART:20261020T140000', 'DURATION:PT45M', 'SUMMARY:Review'],
+      ['UID:c', 'DTSTART;VALUE=DATE:20261021', 'DTEND;VALUE=DATE:20261022', 'SUMMARY:Offsite']
+    ));
+    expect(events.map(e => [e.uid, e.durationHours])).toEqual([['a', 1.5], ['b', 0.75], ['c', undefined]]);
+  });
+
+  it('shows UTC times on the local day and keeps TZID times as written', () => {
+    const [utc, zoned] = parseIcs(calendar(
+      ['UID:a', 'DTSTART:20261020T200000Z', 'DTEND:20261020T210000Z', 'SUMMARY:Late call'],
+      ['UID:b', 'DTSTART;TZID=Europe/Berlin:20261020T200000', 'DTEND;TZID=Europe/Berlin:20261020T210000', 'SUMMARY:Berlin sync']
+    ));
+    expect(utc).toMatchObject({ date: '2026-10-21', durationHours: 1 });
+    expect(zoned).toMatchObject({ date: '2026-10-20', durationHours: 1 });
+  });
+
+  it('unfolds continuation lines and ignores properties of nested components', () => {
+    const [parsed] = parseIcs(calendar(['UID:a', 'DTSTART;VALUE=DATE:20261020', 'SUMMARY:Quarterly', ' planning', 'BEGIN:VALARM', 'DESCRIPTION:Reminder', 'END:VALARM']));
+    expect(parsed).toMatchObject({ summary: 'Quarterlyplanning', description: undefined });
+  });
+
+  it('rejects files that are not calendars', () => {
+    expect(() => parseIcs('Subject,Start Date')).toThrow('This is not an iCalendar (.ics) file.');
+  });
+});
+
+describe('importIcsEvents', () => {
+  const options = { today: '2026-10-19', category: 'Meeting' };
+
+  it('imports an event listed twice under the same UID once', () => {
+    const result = importIcsEvents([event(), event({ summary: 'Standup (copy)' })], [], options);
+    expect(result.created).toHaveLength(1);
+    expect(result.created[0]).toMatchObject({ title: 'Standup', category: 'Meeting', logDate: '2026-10-20', duration: 0.25, icsUid: 'standup@example.com' });
+  });
+
+  it('updates tasks on a re-import instead of adding them again', () => {
+    const first = importIcsEvents([event(), event({ uid: 'retro@example.com', summary: 'Retro' })], [], options);
+    const tasks = first.created;
+
+    const second = importIcsEvents([event({ date: '2026-10-21', durationHours: 0.5 }), event({ uid: 'retro@example.com', summary: 'Retro' })], tasks, options);
+    expect(second.created).toEqual([]);
+    expect(second.unchanged).toBe(1);
+    expect(second.updated).toEqual([{ ...tasks[0], logDate: '2026-10-21', duration: 0.5 }]);
+  });
+
+  it('skips past, cancelled and already completed events', () => {
+    const done = task({ id: 'm1', icsUid: 'standup@example.com', status: TaskStatus.DONE });
+    const result = importIcsEvents([event(), event({ uid: 'old', date: '2026-10-18' }), event({ uid: 'off', cancelled: true })], [done], options);
+    expect(result).toEqual({ created: [], updated: [], unchanged: 0, skipped: 3 });
+  });
+});
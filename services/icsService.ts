@@ -0,0 +1,224 @@
+import { Task, TaskStatus, TaskPriority } from '../types';
+import { addDays } from './recurrenceService';
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  date: string; // Local day the event starts on
+  durationHours?: number; // Unset for all-day events
+  cancelled: boolean;
+}
+
+export interface IcsImportResult {
+  created: Task[];
+  updated: Task[];
+  unchanged: number;
+  skipped: number; // Cancelled or already past
+}
+
+const newId = () => typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : Date.now().toString(36) + Math.random().toString(36).substring(2);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// One pass, so an escaped backslash followed by "n" stays a backslash and an "n".
+const unescapeText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (_, c: string) => c.toLowerCase() === 'n' ? '\n' : c);
+
+// RFC 5545 caps content lines at 75 octets; continuation lines start with a space.
+const fold = (line: string) => {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 74) {
+    parts.push(rest.slice(0, 74));
+    rest = rest.slice(74);
+  }
+  parts.push(rest);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+
+const icsTimestamp = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+/** The UID a task is published under; imported meetings keep the UID of their source event. */
+export const taskUid = (task: Task) => task.icsUid || `${task.id}@worksync`;
+
+/**
+ * Open planned tasks as all-day events on their planned date. Tasks have no time of day, so the
+ * estimate and deadline go into the description. Meetings that came from a calendar are left out so
+ * they do not show up twice next to the original.
+ */
+export const exportIcs = (tasks: Task[], calendarName = 'WorkSync Plan'): string => {
+  const stamp = icsTimestamp(Date.now());
+  const events = tasks
+    .filter(t => !t.recurrence && !t.icsUid && t.status !== TaskStatus.DONE)
+    .map(t => {
+      const details = [
+        t.description,
+        t.duration ? `Estimate: ${t.duration}h` : '',
+        t.dueDate ? `Due: ${t.dueDate}` : '',
+        t.blocker && t.blocker !== 'Self' ? `Waiting on: ${t.blocker}` : ''
+      ].filter(Boolean).join('\n');
+      return [
+        'BEGIN:VEVENT',
+        `UID:${taskUid(t)}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${icsDate(t.logDate)}`,
+        `DTEND;VALUE=DATE:${icsDate(addDays(t.logDate, 1))}`,
+        `SUMMARY:${escapeText(t.title)}`,
+        details ? `DESCRIPTION:${escapeText(details)}` : '',
+        `CATEGORIES:${escapeText(t.category)}`,
+        `PRIORITY:${t.priority === TaskPriority.HIGH ? 1 : t.priority === TaskPriority.MEDIUM ? 5 : 9}`,
+        t.duration ? `X-WORKSYNC-ESTIMATE:PT${Math.round(t.duration * 60)}M` : '',
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      ].filter(Boolean);
+    });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//WorkSync AI//Planner//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flat(),
+    'END:VCALENDAR'
+  ].map(fold).join('\r\n') + '\r\n';
+};
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsMoment {
+  date: string;
+  minutes?: number; // Minutes since midnight; unset for date-only values
+}
+
+// "20261020" or "20261020T093000", with a trailing Z for UTC. UTC times are shown on the local day.
+const parseMoment = (prop: IcsProperty): IcsMoment | null => {
+  const match = prop.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, , utc] = match;
+  if (hh === undefined) return { date: `${y}-${m}-${d}` };
+  if (utc) {
+    const local = new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm));
+    return {
+      date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+      minutes: local.getHours() * 60 + local.getMinutes()
+    };
+  }
+  return { date: `${y}-${m}-${d}`, minutes: +hh * 60 + +mm };
+};
+
+// "PT1H30M", "P1DT2H"; weeks and seconds are rare enough in meetings to ignore.
+const parseDuration = (value: string): number | undefined => {
+  const match = value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match) return undefined;
+  return (+(match[1] || 0)) * 24 * 60 + (+(match[2] || 0)) * 60 + (+(match[3] || 0));
+};
+
+const minutesBetween = (start: IcsMoment, end: IcsMoment) =>
+  (Date.UTC(+end.date.slice(0, 4), +end.date.slice(5, 7) - 1, +end.date.slice(8)) -
+    Date.UTC(+start.date.slice(0, 4), +start.date.slice(5, 7) - 1, +start.date.slice(8))) / 60000 +
+  (end.minutes || 0) - (start.minutes || 0);
+
+/**
+ * Reads the events of an .ics file. Recurring events contribute their first occurrence only; moved
+ * instances of a series (RECURRENCE-ID) are read as events of their own.
+ */
+export const parseIcs = (text: string): IcsEvent[] => {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(l => l.trim() === 'BEGIN:VCALENDAR')) throw new Error('This is not an iCalendar (.ics) file.');
+
+  const events: IcsEvent[] = [];
+  let current: Record<string, IcsProperty> | null = null;
+  let depth = 0; // Nested components such as VALARM carry properties that are not the event's
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') { current = {}; depth = 0; return; }
+    if (!current) return;
+    if (line.startsWith('BEGIN:')) { depth++; return; }
+    if (line.startsWith('END:') && line !== 'END:VEVENT') { depth--; return; }
+    if (line === 'END:VEVENT') {
+      const props: Record<string, IcsProperty> = current;
+      current = null;
+      const start = props.DTSTART && parseMoment(props.DTSTART);
+      if (!props.UID || !start) return;
+      const end = props.DTEND && parseMoment(props.DTEND);
+      const minutes = end ? minutesBetween(start, end) : props.DURATION ? parseDuration(props.DURATION.value) : undefined;
+      const recurrenceId = props['RECURRENCE-ID']?.value;
+      events.push({
+        uid: recurrenceId ? `${props.UID.value}#${recurrenceId}` : props.UID.value,
+        summary: unescapeText(props.SUMMARY?.value || '').trim() || 'Untitled meeting',
+        description: props.DESCRIPTION ? unescapeText(props.DESCRIPTION.value).trim() || undefined : undefined,
+        date: start.date,
+        durationHours: start.minutes !== undefined && minutes && minutes > 0 ? Math.round(minutes / 60 * 100) / 100 : undefined,
+        cancelled: props.STATUS?.value.toUpperCase() === 'CANCELLED'
+      });
+      return;
+    }
+    if (depth > 0) return;
+    const colon = line.indexOf(':');
+    if (colon < 0) return;
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    paramParts.forEach(p => {
+      const [key, value = ''] = p.split('=');
+      params[key.toUpperCase()] = value;
+    });
+    current[name.toUpperCase()] = { params, value: line.slice(colon + 1) };
+  });
+
+  return events;
+};
+
+/**
+ * Turns events into Meeting tasks on the day they take place. A task already imported from the same UID
+ * is updated in place rather than duplicated, unless it has been completed since. Past and cancelled
+ * events are skipped.
+ */
+export const importIcsEvents = (events: IcsEvent[], tasks: Task[], options: { today: string; category: string }): IcsImportResult => {
+  const byUid = new Map(tasks.filter(t => t.icsUid).map(t => [t.icsUid!, t]));
+  const seen = new Set<string>();
+  const result: IcsImportResult = { created: [], updated: [], unchanged: 0, skipped: 0 };
+
+  events.forEach(event => {
+    if (seen.has(event.uid)) return;
+    seen.add(event.uid);
+    if (event.cancelled || event.date < options.today) {
+      result.skipped++;
+      return;
+    }
+    const fields = { title: event.summary, notes: event.description, logDate: event.date, duration: event.durationHours };
+    const existing = byUid.get(event.uid);
+    if (!existing) {
+      result.created.push({
+        id: newId(),
+        description: '',
+        status: TaskStatus.TODO,
+        priority: TaskPriority.MEDIUM,
+        category: options.category,
+        createdAt: Date.now(),
+        icsUid: event.uid,
+        ...fields
+      });
+    } else if (existing.status === TaskStatus.DONE) {
+      result.skipped++;
+    } else if (existing.title !== fields.title || existing.notes !== fields.notes || existing.logDate !== fields.logDate || existing.duration !== fields.duration) {
+      result.updated.push({ ...existing, ...fields });
+    } else {
+      result.unchanged++;
+    }
+  });
+
+  return result;
+};
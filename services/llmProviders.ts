@@ -0,0 +1,138 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmProviderId, LlmSettings } from "../types";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * What every feature sends a provider: models answer `prompt` with JSON matching `schema`, and the
+ * template provider answers with `local`, the same fields filled in by this device's own rules.
+ */
+export interface JsonRequest {
+  prompt: string;
+  schema: JsonSchema;
+  local: () => Record<string, unknown>;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  description: string;
+  usesModel: boolean; // False when answers come from local rules, so asking it for a second opinion adds nothing
+  generate: (request: JsonRequest, settings: LlmSettings) => Promise<any>;
+}
+
+export const LLM_PROVIDERS: LlmProvider[] = [
+  {
+    id: 'gemini',
+    label: 'Gemini',
+    defaultModel: 'gemini-3-flash-preview',
+    description: 'Google Gemini, using the GEMINI_API_KEY of this build.',
+    usesModel: true,
+    generate: (request, settings) => geminiJson(request.prompt, request.schema, settings)
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI-Compatible',
+    defaultModel: 'llama3.1',
+    description: 'Any server exposing /chat/completions: OpenAI, Ollama, LM Studio, llama.cpp, vLLM.',
+    usesModel: true,
+    generate: (request, settings) => openAiJson(request.prompt, request.schema, settings)
+  },
+  {
+    id: 'offline',
+    label: 'Offline Templates',
+    defaultModel: '',
+    description: 'Writes reports from fixed templates on this device. No network, always available.',
+    usesModel: false,
+    generate: async request => request.local()
+  }
+];
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: 'gemini-3-flash-preview',
+  temperature: 0.7,
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: ''
+};
+
+export const getProvider = (settings: LlmSettings): LlmProvider =>
+  LLM_PROVIDERS.find(p => p.id === settings.provider) || LLM_PROVIDERS[0];
+
+export const providerLabel = (settings: LlmSettings) => {
+  const provider = getProvider(settings);
+  return provider.usesModel ? `${provider.label} · ${settings.model}` : provider.label;
+};
+
+const parseJson = (text: string) => {
+  // Some local models wrap JSON in a markdown fence even when asked not to.
+  const body = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    throw new Error('The model did not return valid JSON. Try again, or pick a model with structured output support.');
+  }
+};
+
+const geminiJson = async (prompt: string, schema: JsonSchema, settings: LlmSettings) => {
+  if (!process.env.API_KEY) {
+    throw new Error('No Gemini API key is configured. Set GEMINI_API_KEY in .env.local, or choose another provider in the Workspace tab.');
+  }
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  let text: string | undefined;
+  try {
+    const response = await ai.models.generateContent({
+      model: settings.model,
+      contents: prompt,
+      config: {
+        temperature: settings.temperature,
+        responseMimeType: 'application/json',
+        responseJsonSchema: schema
+      }
+    });
+    text = response.text;
+  } catch (error: any) {
+    console.error("Gemini request failed:", error);
+    throw new Error(`Gemini request failed: ${error?.message || 'unknown error'}`);
+  }
+  return parseJson(text || '{}');
+};
+
+const openAiJson = async (prompt: string, schema: JsonSchema, settings: LlmSettings) => {
+  const endpoint = settings.endpoint.trim().replace(/\/+$/, '');
+  if (!endpoint) throw new Error('No endpoint is configured for the OpenAI-compatible provider. Set one in the Workspace tab.');
+
+  let response: Response;
+  try {
+    response = await fetch(`${endpoint}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: settings.temperature,
+        messages: [
+          { role: 'system', content: 'Reply with a single JSON object that matches the given schema and nothing else.' },
+          { role: 'user', content: `${prompt}\n\nJSON schema:\n${JSON.stringify(schema)}` }
+        ],
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema } }
+      })
+    });
+  } catch (error) {
+    console.error("OpenAI-compatible request failed:", error);
+    throw new Error(`Could not reach ${endpoint}. Check that the server is running and allows requests from this origin (CORS).`);
+  }
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${endpoint} answered ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+  const data = await response.json();
+  return parseJson(data?.choices?.[0]?.message?.content || '{}');
+};
+
+/** Answers a request with the configured provider. */
+export const generateJson = (request: JsonRequest, settings: LlmSettings): Promise<any> =>
+  getProvider(settings).generate(request, settings);
@@ -0,0 +1,166 @@
+import { Workspace, OutboxEntry, EntityChange, AppliedChange } from '../types';
+
+const DB_NAME = 'worksync-local';
+const DB_VERSION = 2;
+const WORKSPACE_STORE = 'workspaces';
+const OUTBOX_STORE = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const outboxEntryId = (userId: string, change: Pick<EntityChange, 'entity' | 'key'>) => `${userId}:${change.entity}:${change.key}`;
+
+/**
+ * Version 1 queued whole-workspace snapshots and task deletions. Rewrite them as entity changes
+ * so edits queued before the upgrade still reach the server.
+ */
+const migrateLegacyOutbox = (outbox: IDBObjectStore) => {
+  const cursorRequest = outbox.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const legacy = cursor.value;
+    if (!legacy.op) {
+      cursor.continue();
+      return;
+    }
+    const changes: EntityChange[] = [];
+    if (legacy.op?.kind === 'syncWorkspace') {
+      const ws: Workspace = legacy.op.workspace;
+      ws.tasks.forEach(t => changes.push({ entity: 'task', key: t.id, action: 'upsert', data: t }));
+      ws.points.forEach(p => changes.push({ entity: 'point', key: p.id, action: 'upsert', data: p }));
+      ws.team.forEach(n => changes.push({ entity: 'team', key: n, action: 'upsert' }));
+      ws.categories.forEach(n => changes.push({ entity: 'category', key: n, action: 'upsert' }));
+      ws.modules.forEach(n => changes.push({ entity: 'module', key: n, action: 'upsert' }));
+    } else if (legacy.op?.kind === 'deleteTask') {
+      changes.push({ entity: 'task', key: legacy.op.taskId, action: 'delete' });
+    }
+    cursor.delete();
+    changes.forEach(change => outbox.put({
+      id: outboxEntryId(legacy.userId, change),
+      userId: legacy.userId,
+      change,
+      createdAt: legacy.createdAt
+    }));
+    cursor.continue();
+  };
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+          db.createObjectStore(WORKSPACE_STORE, { keyPath: 'userId' });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+          outbox.createIndex('userId', 'userId', { unique: false });
+        } else if (event.oldVersion < 2) {
+          migrateLegacyOutbox(request.transaction!.objectStore(OUTBOX_STORE));
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request inside its own transaction and resolves once the transaction commits,
+ * so callers never observe a write that could still be rolled back.
+ */
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const runBatch = async (storeName: string, action: (store: IDBObjectStore) => void, mode: IDBTransactionMode = 'readwrite'): Promise<void> => {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const localStore = {
+  loadWorkspace: async (userId: string): Promise<Workspace | null> => {
+    const record = await run<{ userId: string; workspace: Workspace } | undefined>(WORKSPACE_STORE, 'readonly', store => store.get(userId));
+    // Workspaces saved before daily logs or saved views were synced lack those lists.
+    return record ? { ...record.workspace, logs: record.workspace.logs || [], views: record.workspace.views || [] } : null;
+  },
+
+  saveWorkspace: async (userId: string, workspace: Workspace): Promise<void> => {
+    await run(WORKSPACE_STORE, 'readwrite', store => store.put({ userId, workspace, savedAt: Date.now() }));
+  },
+
+  clearWorkspace: async (userId: string): Promise<void> => {
+    await run(WORKSPACE_STORE, 'readwrite', store => store.delete(userId));
+  },
+
+  listOutbox: async (userId?: string): Promise<OutboxEntry[]> => {
+    const entries = await run<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store =>
+      userId ? store.index('userId').getAll(userId) : store.getAll()
+    );
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  putOutboxEntries: async (entries: OutboxEntry[]): Promise<void> => {
+    await runBatch(OUTBOX_STORE, store => entries.forEach(entry => store.put(entry)));
+  },
+
+  getOutboxEntries: async (ids: string[]): Promise<OutboxEntry[]> => {
+    const found: OutboxEntry[] = [];
+    await runBatch(OUTBOX_STORE, store => ids.forEach(id => {
+      const request = store.get(id);
+      request.onsuccess = () => { if (request.result) found.push(request.result); };
+    }), 'readonly');
+    return found;
+  },
+
+  /**
+   * Clears a sent batch. Entries overwritten by a newer edit while the batch was in flight are kept,
+   * rebased onto the revision the server just assigned. Stale writes are dropped outright: the
+   * caller merges them against the latest local copy, which re-queues whatever survives.
+   */
+  settleOutboxEntries: async (sent: OutboxEntry[], applied: Map<string, AppliedChange>, stale: Set<string>): Promise<void> => {
+    await runBatch(OUTBOX_STORE, store => sent.forEach(entry => {
+      const request = store.get(entry.id);
+      request.onsuccess = () => {
+        const current: OutboxEntry | undefined = request.result;
+        if (!current) return;
+        if (current.createdAt === entry.createdAt || stale.has(entry.id)) {
+          store.delete(entry.id);
+          return;
+        }
+        const result = applied.get(entry.id);
+        if (!result || !current.change.data || !entry.change.data) return;
+        const meta = { revision: result.revision, updatedAt: result.updatedAt };
+        store.put({
+          ...current,
+          change: { ...current.change, data: { ...current.change.data, ...meta }, base: { ...entry.change.data, ...meta } }
+        });
+      };
+    }));
+  },
+
+  countOutbox: async (userId?: string): Promise<number> => {
+    return run<number>(OUTBOX_STORE, 'readonly', store =>
+      userId ? store.index('userId').count(userId) : store.count()
+    );
+  }
+};
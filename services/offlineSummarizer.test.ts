@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { Task, TaskStatus, TaskPriority } from '../types';
+import { buildDaySource } from './reportService';
+import { summarizeOffline } from './offlineSummarizer';
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Fix login',
+  description: '',
+  status: TaskStatus.DONE,
+  priority: TaskPriority.MEDIUM,
+  category: 'Bug Fix',
+  createdAt: 1,
+  logDate: '2026-10-19',
+  ...overrides
+});
+
+describe('summarizeOffline', () => {
+  const tasks = [
+    task({ duration: 2 }),
+    task({ id: 't2', title: 'Write release notes', status: TaskStatus.IN_PROGRESS, priority: TaskPriority.LOW, dueDate: '2026-10-21' }),
+    task({ id: 't3', title: 'Migrate billing', status: TaskStatus.TODO, priority: TaskPriority.HIGH, blocker: 'Ravi' }),
+    task({ id: 't4', title: 'Tomorrow only', logDate: '2026-10-20', status: TaskStatus.TODO })
+  ];
+
+  it('reports the done tasks of a day as accomplishments and the open ones as deadlines and next steps', () => {
+    const sections = summarizeOffline(buildDaySource(tasks, '2026-10-19'), ['overview', 'accomplishments', 'deadlines', 'nextSteps']);
+    expect(sections.overview).toMatch(/^Completed 1 task on 19-Oct-2026 for 2h of logged work, covering Bug Fix\./);
+    expect(sections.accomplishments).toEqual(['Fix login (2h)']);
+    expect(sections.deadlines).toEqual([{ task: 'Write release notes', dueDate: '21-Oct-2026', note: '' }]);
+    expect(sections.nextSteps).toEqual(['Continue Migrate billing', 'Continue Write release notes', 'Follow up with Ravi on Migrate billing']);
+  });
+
+  it('writes a day report when nothing has been finished yet', () => {
+    const sections = summarizeOffline(buildDaySource(tasks, '2026-10-20'), ['accomplishments', 'nextSteps']);
+    expect(sections).toEqual({ accomplishments: [], nextSteps: ['Continue Tomorrow only'] });
+  });
+});
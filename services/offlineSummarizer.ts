@@ -0,0 +1,64 @@
+import { Task, TaskStatus, TaskPriority, SummarySectionId } from '../types';
+import { ReportSource } from './reportService';
+import { formatAppDate } from './dateFormat';
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { [TaskPriority.HIGH]: 0, [TaskPriority.MEDIUM]: 1, [TaskPriority.LOW]: 2 };
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+const hours = (tasks: Task[]) => Math.round(tasks.reduce((acc, t) => acc + (t.duration || 0), 0) * 100) / 100;
+
+const blockerItems = (tasks: Task[]) => tasks
+  .filter(t => t.blocker && t.blocker !== 'Self')
+  .map(t => ({ item: t.title, owner: t.blocker!, followUp: t.status === TaskStatus.DONE ? '' : `Follow up with ${t.blocker}` }));
+
+const deadlineItems = (tasks: Task[]) => tasks
+  .filter(t => t.dueDate && t.status !== TaskStatus.DONE)
+  .sort((a, b) => a.dueDate!.localeCompare(b.dueDate!))
+  .map(t => ({ task: t.title, dueDate: formatAppDate(t.dueDate!), note: t.postponements?.length ? `postponed ${plural(t.postponements.length, 'time')}` : '' }));
+
+const byPriority = (tasks: Task[]) => [...tasks].sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+
+/**
+ * Fills report sections from the source alone, in the same shapes a model returns, so the result
+ * goes through the same formatting. Deterministic: the same tasks always give the same report.
+ */
+export const summarizeOffline = (source: ReportSource, ids: SummarySectionId[]): Record<string, unknown> => {
+  let values: Record<SummarySectionId, unknown>;
+
+  if (source.kind === 'day') {
+    const { tasks } = source;
+    const done = tasks.filter(t => t.status === TaskStatus.DONE);
+    const open = tasks.filter(t => t.status !== TaskStatus.DONE);
+    const categories = [...new Set(done.map(t => t.category))];
+    const blockers = blockerItems(tasks);
+    values = {
+      overview: `Completed ${plural(done.length, 'task')} on ${formatAppDate(tasks[0].logDate)} for ${hours(done)}h of logged work`
+        + (categories.length ? `, covering ${categories.join(', ')}.` : '.')
+        + (blockers.length ? ` ${plural(blockers.length, 'item')} depended on collaborators.` : ''),
+      accomplishments: done.map(t => `${t.title}${t.duration ? ` (${t.duration}h)` : ''}`),
+      blockers,
+      deadlines: deadlineItems(tasks),
+      nextSteps: [
+        ...byPriority(open).map(t => `Continue ${t.title}`),
+        ...blockers.filter(b => b.followUp).map(b => `${b.followUp} on ${b.item}`)
+      ]
+    };
+  } else {
+    const { digest } = source;
+    values = {
+      overview: `${digest.totalHours}h logged on completed work between ${formatAppDate(digest.range.from)} and ${formatAppDate(digest.range.to)}`
+        + ` across ${digest.categories.length} ${digest.categories.length === 1 ? 'category' : 'categories'}.`
+        + ` ${plural(digest.open.length, 'item')} still open; ${plural(digest.postponed, 'reschedule')} in the period.`,
+      accomplishments: digest.categories.map(group => `${group.category} (${group.hours}h): ${group.tasks.map(t => t.title).join(', ')}`),
+      blockers: digest.blockers.map(b => ({
+        item: plural(b.count, 'task'),
+        owner: b.name,
+        followUp: b.count > 1 ? 'Recurring: agree on a regular check-in' : ''
+      })),
+      deadlines: deadlineItems(digest.open),
+      nextSteps: byPriority(digest.open).slice(0, 5).map(t => `${t.title} (${t.priority})`)
+    };
+  }
+
+  return Object.fromEntries(ids.map(id => [id, values[id]]));
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { TaskPriority, LlmSettings } from '../types';
+import { DEFAULT_LLM_SETTINGS } from './llmProviders';
+import { parseQuickAdd, parseQuickAddWithAi, resolveDateWord } from './quickAddParser';
+
+// 2026-10-19 is a Monday.
+const context = { today: '2026-10-19', categories: ['Bug Fix', 'Bug', 'Frontend'], teamMembers: ['Self', 'Ravi', 'Ann Lee'] };
+
+describe('parseQuickAdd', () => {
+  it('reads every field of the example entry', () => {
+    expect(parseQuickAdd('Fix login bug 2h high #Bug Fix blocked by Ravi tomorrow', context)).toEqual({
+      title: 'Fix login bug',
+      duration: 2,
+      priority: TaskPriority.HIGH,
+      category: 'Bug Fix',
+      blocker: 'Ravi',
+      logDate: '2026-10-20',
+      unknown: []
+    });
+  });
+
+  it('prefers the longest category and collaborator name', () => {
+    expect(parseQuickAdd('Retest checkout #Bug Fix waiting on Ann Lee', context)).toMatchObject({ title: 'Retest checkout', category: 'Bug Fix', blocker: 'Ann Lee' });
+    expect(parseQuickAdd('Retest checkout #Bug', context)).toMatchObject({ title: 'Retest checkout', category: 'Bug' });
+  });
+
+  it('reads a category at the start of the entry', () => {
+    expect(parseQuickAdd('#Bug Fix login redirect 30m', context)).toMatchObject({ title: 'login redirect', category: 'Bug Fix', duration: 0.5 });
+  });
+
+  it('keeps looking past a "#" that names no category', () => {
+    expect(parseQuickAdd('Close #42 crash #Frontend', context)).toMatchObject({ title: 'Close crash', category: 'Frontend', unknown: ['#42'] });
+  });
+
+  it('leaves a "#" inside a word in the title', () => {
+    expect(parseQuickAdd('Learn C# basics', context)).toMatchObject({ title: 'Learn C# basics', unknown: [] });
+  });
+
+  it('reads durations in hours and minutes', () => {
+    expect(parseQuickAdd('Standup 15 min', context).duration).toBe(0.25);
+    expect(parseQuickAdd('Review 1h 30m', context).duration).toBe(1.5);
+    expect(parseQuickAdd('Review 1.5 hrs', context).duration).toBe(1.5);
+  });
+
+  it('tells the planned day from the due date', () => {
+    expect(parseQuickAdd('Release notes due friday on next mon', context)).toMatchObject({ title: 'Release notes', dueDate: '2026-10-23', logDate: '2026-10-26' });
+  });
+
+  it('reports a collaborator it does not know', () => {
+    expect(parseQuickAdd('Deploy blocked by Omar', context)).toMatchObject({ title: 'Deploy', unknown: ['Omar'] });
+  });
+});
+
+describe('resolveDateWord', () => {
+  it('resolves relative days against today', () => {
+    expect(resolveDateWord('today', context.today)).toBe('2026-10-19');
+    expect(resolveDateWord('yesterday', context.today)).toBe('2026-10-18');
+    expect(resolveDateWord('in 3 days', context.today)).toBe('2026-10-22');
+    expect(resolveDateWord('monday', context.today)).toBe('2026-10-19');
+    expect(resolveDateWord('next monday', context.today)).toBe('2026-10-26');
+    expect(resolveDateWord('thurs', context.today)).toBe('2026-10-22');
+    expect(resolveDateWord('someday', context.today)).toBeUndefined();
+  });
+});
+
+describe('parseQuickAddWithAi', () => {
+  it('falls back to the rules when the provider has no model', async () => {
+    const offline: LlmSettings = { ...DEFAULT_LLM_SETTINGS, provider: 'offline', model: '' };
+    expect(await parseQuickAddWithAi('Fix login bug 2h high #Bug Fix blocked by Ravi tomorrow', context, offline)).toEqual(
+      parseQuickAdd('Fix login bug 2h high #Bug Fix blocked by Ravi tomorrow', context)
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import { TaskPriority, LlmSettings } from '../types';
+import { addDays, weekdayOf } from './recurrenceService';
+import { generateJson } from './llmProviders';
+
+export interface QuickAddDraft {
+  title: string;
+  duration?: number; // Hours
+  priority?: TaskPriority;
+  category?: string;
+  blocker?: string;
+  logDate?: string;
+  dueDate?: string;
+  unknown: string[]; // Tokens that looked like a field but matched nothing, e.g. "#Desgin"
+}
+
+export interface QuickAddContext {
+  today: string;
+  categories: string[];
+  teamMembers: string[];
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DATE_WORD = String.raw`(today|tomorrow|yesterday|(?:next\s+)?(?:sun|mon|tues?|wed(?:nes)?|thu(?:rs)?|fri|sat(?:ur)?)(?:day)?|in\s+\d+\s+days?|\d{4}-\d{2}-\d{2})`;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Resolves "tomorrow", "friday", "next mon", "in 3 days" or an ISO date against `today`. */
+export const resolveDateWord = (word: string, today: string): string | undefined => {
+  const text = word.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (ISO_DATE.test(text)) return text;
+  if (text === 'today') return today;
+  if (text === 'tomorrow') return addDays(today, 1);
+  if (text === 'yesterday') return addDays(today, -1);
+  const inDays = text.match(/^in (\d+) days?$/);
+  if (inDays) return addDays(today, parseInt(inDays[1], 10));
+  const next = text.startsWith('next ');
+  const day = WEEKDAYS.findIndex(d => d.startsWith(text.replace('next ', '').slice(0, 3)));
+  if (day < 0) return undefined;
+  // A bare weekday includes today; "next friday" is always in the future.
+  const ahead = (day - weekdayOf(today) + 7) % 7;
+  return addDays(today, ahead === 0 && next ? 7 : ahead);
+};
+
+// Longest known name that `text` starts with, so "#Bug Fix later" picks "Bug Fix" over "Bug".
+const matchName = (text: string, names: string[]) =>
+  [...names]
+    .sort((a, b) => b.length - a.length)
+    .find(name => text.toLowerCase().startsWith(name.toLowerCase()) && !/\w/.test(text.charAt(name.length)));
+
+const PRIORITY_WORDS: Record<string, TaskPriority> = {
+  high: TaskPriority.HIGH, urgent: TaskPriority.HIGH,
+  medium: TaskPriority.MEDIUM, med: TaskPriority.MEDIUM,
+  low: TaskPriority.LOW
+};
+
+/**
+ * Local, rule-based reading of a quick-add line such as
+ * "Fix login bug 2h high #Bug Fix blocked by Ravi tomorrow". Whatever is not recognised stays in the title.
+ */
+export const parseQuickAdd = (input: string, context: QuickAddContext): QuickAddDraft => {
+  let rest = ` ${input} `;
+  const draft: QuickAddDraft = { title: '', unknown: [] };
+  const take = (start: number, length: number) => { rest = `${rest.slice(0, start)} ${rest.slice(start + length)}`; };
+
+  // Each "#" is tried in turn, so an issue number such as "#42" does not hide the category after it.
+  // The padding above lets a "#" open the line.
+  for (let from = 0; !draft.category;) {
+    const hash = rest.slice(from).search(/\s#\S/);
+    if (hash < 0) break;
+    from += hash;
+    const after = rest.slice(from + 2);
+    const category = matchName(after, context.categories);
+    const token = category || after.match(/^\S+/)![0];
+    if (category) draft.category = category;
+    else draft.unknown.push(`#${token}`);
+    take(from + 1, token.length + 1);
+  }
+
+  const blockedBy = rest.match(/\s(?:blocked by|waiting (?:on|for))\s+/i);
+  if (blockedBy && blockedBy.index !== undefined) {
+    const after = rest.slice(blockedBy.index + blockedBy[0].length);
+    const member = matchName(after, context.teamMembers.filter(m => m !== 'Self'));
+    const token = member || after.match(/^\S+/)?.[0] || '';
+    if (member) draft.blocker = member;
+    else if (token) draft.unknown.push(token);
+    take(blockedBy.index + 1, blockedBy[0].length - 1 + token.length);
+  }
+
+  // "2h", "1.5 hrs", "1h 30m" or just "45 min".
+  const hours = rest.match(/\s(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)(?:\s*(\d+)\s*(?:m|mins?|minutes?))?(?=\s)/i);
+  const minutes = hours ? null : rest.match(/\s(\d+)\s*(?:m|mins?|minutes?)(?=\s)/i);
+  const duration = hours || minutes;
+  if (duration && duration.index !== undefined) {
+    const total = hours ? parseFloat(hours[1]) + (hours[2] ? parseInt(hours[2], 10) / 60 : 0) : parseInt(minutes![1], 10) / 60;
+    if (total > 0) draft.duration = Math.round(total * 100) / 100;
+    take(duration.index + 1, duration[0].length - 1);
+  }
+
+  const priority = rest.match(/\s!?(high|urgent|medium|med|low)(?:\s+priority)?(?=\s)/i);
+  if (priority && priority.index !== undefined) {
+    draft.priority = PRIORITY_WORDS[priority[1].toLowerCase()];
+    take(priority.index + 1, priority[0].length - 1);
+  }
+
+  const due = rest.match(new RegExp(String.raw`\s(?:due|by)\s+(?:on\s+)?${DATE_WORD}(?=\s)`, 'i'));
+  if (due && due.index !== undefined) {
+    draft.dueDate = resolveDateWord(due[1], context.today);
+    take(due.index + 1, due[0].length - 1);
+  }
+
+  const on = rest.match(new RegExp(String.raw`\s(?:on\s+)?${DATE_WORD}(?=\s)`, 'i'));
+  if (on && on.index !== undefined) {
+    draft.logDate = resolveDateWord(on[1], context.today);
+    take(on.index + 1, on[0].length - 1);
+  }
+
+  draft.title = rest.replace(/\s+/g, ' ').trim();
+  return draft;
+};
+
+const DRAFT_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    durationHours: { type: 'number' },
+    priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH'] },
+    category: { type: 'string' },
+    blocker: { type: 'string' },
+    logDate: { type: 'string', description: 'YYYY-MM-DD the work is planned for or was done on' },
+    dueDate: { type: 'string', description: 'YYYY-MM-DD deadline' }
+  },
+  required: ['title']
+};
+
+/**
+ * Reads the line with the configured model, for phrasing the rules miss ("half an hour", "end of
+ * week"). The answer is checked against the same lists as the local parser: a category or collaborator
+ * that does not exist is reported as unknown rather than invented.
+ */
+export const parseQuickAddWithAi = async (input: string, context: QuickAddContext, settings: LlmSettings): Promise<QuickAddDraft> => {
+  const weekday = WEEKDAYS[weekdayOf(context.today)];
+  const result = await generateJson({
+    prompt: `
+        Split this task entry into fields. Today is ${weekday}, ${context.today}.
+        Entry: "${input}"
+
+        Known categories: ${context.categories.join(', ')}
+        Known collaborators: ${context.teamMembers.filter(m => m !== 'Self').join(', ') || 'none'}
+
+        Leave a field out when the entry does not mention it. The title is the entry without the words used for other fields.
+      `,
+    schema: DRAFT_SCHEMA,
+    local: () => {
+      const parsed = parseQuickAdd(input, context);
+      return { title: parsed.title, durationHours: parsed.duration, priority: parsed.priority, category: parsed.category, blocker: parsed.blocker, logDate: parsed.logDate, dueDate: parsed.dueDate };
+    }
+  }, settings);
+
+  const draft: QuickAddDraft = { title: String(result.title || input).trim(), unknown: [] };
+  if (typeof result.durationHours === 'number' && result.durationHours > 0) draft.duration = Math.round(result.durationHours * 100) / 100;
+  if (Object.values(TaskPriority).includes(result.priority)) draft.priority = result.priority;
+  if (result.category) {
+    const category = context.categories.find(c => c.toLowerCase() === String(result.category).toLowerCase());
+    if (category) draft.category = category;
+    else draft.unknown.push(`#${result.category}`);
+  }
+  if (result.blocker) {
+    const member = context.teamMembers.find(m => m.toLowerCase() === String(result.blocker).toLowerCase());
+    if (member) draft.blocker = member;
+    else draft.unknown.push(String(result.blocker));
+  }
+  if (ISO_DATE.test(result.logDate || '')) draft.logDate = result.logDate;
+  if (ISO_DATE.test(result.dueDate || '')) draft.dueDate = result.dueDate;
+  return draft;
+};
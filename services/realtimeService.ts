@@ -0,0 +1,92 @@
+import { RemoteEvent, Workspace, SyncRecord } from '../types';
+import { apiService } from './apiService';
+import { entityChanged } from './changeTracker';
+import { pendingKey } from './syncQueue';
+
+export interface RealtimeSource {
+  subscribe: (userId: string, onEvent: (event: RemoteEvent) => void) => () => void;
+}
+
+export const supabaseRealtime: RealtimeSource = {
+  subscribe: (userId, onEvent) => apiService.subscribeToWorkspace(userId, onEvent)
+};
+
+/**
+ * In-memory stand-in for local development and tests: whatever is passed to `emit` is delivered
+ * to every subscriber of that user, exactly like a row change arriving from the server.
+ */
+export const createLocalRealtime = () => {
+  const subscribers = new Map<string, Set<(event: RemoteEvent) => void>>();
+  return {
+    subscribe: (userId: string, onEvent: (event: RemoteEvent) => void) => {
+      if (!subscribers.has(userId)) subscribers.set(userId, new Set());
+      subscribers.get(userId)!.add(onEvent);
+      return () => { subscribers.get(userId)?.delete(onEvent); };
+    },
+    emit: (userId: string, event: RemoteEvent) => {
+      subscribers.get(userId)?.forEach(onEvent => onEvent(event));
+    }
+  };
+};
+
+let activeSource: RealtimeSource = supabaseRealtime;
+
+export const realtimeService = {
+  useSource: (source: RealtimeSource) => { activeSource = source; },
+  subscribe: (userId: string, onEvent: (event: RemoteEvent) => void) => activeSource.subscribe(userId, onEvent)
+};
+
+export const eventKey = (event: RemoteEvent) => 'record' in event ? event.record.id : event.key;
+
+const recordField = { task: 'tasks', point: 'points', log: 'logs', view: 'views' } as const;
+const listField = { team: 'team', category: 'categories', module: 'modules' } as const;
+
+const upsertById = <T extends { id: string }>(list: T[], record: T): T[] =>
+  list.some(r => r.id === record.id) ? list.map(r => r.id === record.id ? record : r) : [record, ...list];
+
+/**
+ * Folds remote events into the live workspace and its sync baseline. Entities with local edits that
+ * have not reached the server (queued in the outbox, or changed since the baseline) are left alone;
+ * the revision check on the next flush reconciles them. Older revisions, such as echoes of our own
+ * writes, are ignored.
+ */
+export const mergeRemoteEvents = (
+  state: Workspace,
+  baseline: Workspace,
+  events: RemoteEvent[],
+  pending: Set<string>
+): { state: Workspace; baseline: Workspace } => {
+  let nextState = state;
+  let nextBaseline = baseline;
+
+  events.forEach(event => {
+    const key = eventKey(event);
+    if (pending.has(pendingKey(event.entity, key))) return;
+
+    if (event.entity === 'task' || event.entity === 'point' || event.entity === 'log' || event.entity === 'view') {
+      const field = recordField[event.entity];
+      const records = (ws: Workspace) => (ws[field] || []) as SyncRecord[];
+      const live = records(nextState).find(r => r.id === key);
+      const base = records(nextBaseline).find(r => r.id === key);
+      if (live && base && entityChanged(base, live)) return;
+
+      if (event.type === 'delete') {
+        nextState = { ...nextState, [field]: records(nextState).filter(r => r.id !== key) };
+        nextBaseline = { ...nextBaseline, [field]: records(nextBaseline).filter(r => r.id !== key) };
+      } else if ('record' in event && (!live || (live.revision ?? 0) < (event.record.revision ?? 0))) {
+        nextState = { ...nextState, [field]: upsertById(records(nextState), event.record) };
+        nextBaseline = { ...nextBaseline, [field]: upsertById(records(nextBaseline), event.record) };
+      }
+      return;
+    }
+
+    const field = listField[event.entity];
+    const apply = (list: string[]) => event.type === 'delete'
+      ? list.filter(n => n !== key)
+      : (list.includes(key) ? list : [...list, key]);
+    nextState = { ...nextState, [field]: apply(nextState[field]) };
+    nextBaseline = { ...nextBaseline, [field]: apply(nextBaseline[field]) };
+  });
+
+  return { state: nextState, baseline: nextBaseline };
+};
@@ -0,0 +1,141 @@
+import { Task, TaskStatus, RecurrenceRule } from '../types';
+
+const DAY_MS = 86400000;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ORDINALS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' };
+
+// Dates are YYYY-MM-DD strings, as everywhere else in the app; all arithmetic is done in UTC.
+const toUtc = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const fromUtc = (ms: number) => new Date(ms).toISOString().split('T')[0];
+
+export const addDays = (date: string, days: number) => fromUtc(toUtc(date) + days * DAY_MS);
+
+export const daysBetween = (from: string, to: string) => Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+
+const monthIndex = (date: string) => {
+  const [y, m] = date.split('-').map(Number);
+  return y * 12 + (m - 1);
+};
+
+// The start date's position in its month; a 5th weekday is treated as "last".
+export const defaultMonthlyWeek = (start: string) => {
+  const nth = Math.ceil(new Date(toUtc(start)).getUTCDate() / 7);
+  return nth > 4 ? -1 : nth;
+};
+
+export const weekdayOf = (date: string) => new Date(toUtc(date)).getUTCDay();
+
+const matchesRule = (rule: RecurrenceRule, start: string, date: string): boolean => {
+  const interval = Math.max(1, rule.interval || 1);
+  const day = new Date(toUtc(date));
+  const weekday = day.getUTCDay();
+  const startWeekday = weekdayOf(start);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return Math.round((toUtc(date) - toUtc(start)) / DAY_MS) % interval === 0;
+    case 'weekdays':
+      return weekday >= 1 && weekday <= 5;
+    case 'weekly': {
+      const days = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [startWeekday];
+      // Weeks are counted from the Sunday of the start week so "every 2 weeks on Mon, Thu" stays aligned.
+      const startWeek = toUtc(start) - startWeekday * DAY_MS;
+      const week = Math.floor((toUtc(date) - startWeek) / (7 * DAY_MS));
+      return days.includes(weekday) && week % interval === 0;
+    }
+    case 'monthly': {
+      if ((monthIndex(date) - monthIndex(start)) % interval !== 0) return false;
+      const targetWeekday = rule.monthlyWeekday ?? startWeekday;
+      if (weekday !== targetWeekday) return false;
+      const dayOfMonth = day.getUTCDate();
+      const nth = rule.monthlyWeek ?? defaultMonthlyWeek(start);
+      if (nth === -1) return new Date(toUtc(date) + 7 * DAY_MS).getUTCMonth() !== day.getUTCMonth();
+      return Math.ceil(dayOfMonth / 7) === nth;
+    }
+  }
+};
+
+/**
+ * Occurrence dates of a series between `from` and `to` (inclusive). A `count` limit is counted
+ * from the series start, so the window does not change which occurrences exist.
+ */
+export const occurrencesBetween = (series: Task, from: string, to: string): string[] => {
+  const rule = series.recurrence;
+  if (!rule) return [];
+  const start = series.logDate;
+  const last = rule.endDate && rule.endDate < to ? rule.endDate : to;
+  const skipped = new Set(series.skippedDates || []);
+  const dates: string[] = [];
+  let seen = 0;
+  for (let date = start; date <= last; date = addDays(date, 1)) {
+    if (!matchesRule(rule, start, date)) continue;
+    seen++;
+    if (rule.count && seen > rule.count) break;
+    if (date >= from && !skipped.has(date)) dates.push(date);
+  }
+  return dates;
+};
+
+export const occurrenceId = (seriesId: string, date: string) => `${seriesId}_${date}`;
+
+/**
+ * Builds the occurrences of every series that fall on the given dates and do not exist yet. Ids and
+ * timestamps are derived from the series and date, so two devices generating the same occurrence
+ * produce identical tasks and the sync layer sees nothing to reconcile.
+ */
+export const generateOccurrences = (tasks: Task[], dates: string[]): Task[] => {
+  const existing = new Set(tasks.map(t => t.id));
+  const created: Task[] = [];
+  tasks.filter(t => t.recurrence).forEach(series => {
+    dates.forEach(date => {
+      const id = occurrenceId(series.id, date);
+      if (existing.has(id) || !occurrencesBetween(series, date, date).includes(date)) return;
+      existing.add(id);
+      created.push({
+        id,
+        title: series.title,
+        description: series.description,
+        notes: series.notes,
+        status: TaskStatus.TODO,
+        priority: series.priority,
+        category: series.category,
+        blocker: series.blocker,
+        duration: series.duration,
+        dueDate: series.dueDate,
+        createdAt: toUtc(date) + (series.createdAt % DAY_MS),
+        logDate: date,
+        seriesId: series.id,
+        occurrenceDate: date
+      });
+    });
+  });
+  return created;
+};
+
+export const describeRule = (rule: RecurrenceRule, start: string, formatDate: (date: string) => string = d => d): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  let text = '';
+  switch (rule.frequency) {
+    case 'daily':
+      text = interval === 1 ? 'Daily' : `Every ${interval} days`;
+      break;
+    case 'weekdays':
+      text = 'Every weekday';
+      break;
+    case 'weekly': {
+      const days = (rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [weekdayOf(start)])
+        .slice().sort().map(d => WEEKDAY_NAMES[d]).join(', ');
+      text = `${interval === 1 ? 'Weekly' : `Every ${interval} weeks`} on ${days}`;
+      break;
+    }
+    case 'monthly': {
+      const nth = rule.monthlyWeek ?? defaultMonthlyWeek(start);
+      const weekday = rule.monthlyWeekday ?? weekdayOf(start);
+      text = `${interval === 1 ? 'Monthly' : `Every ${interval} months`} on the ${ORDINALS[nth]} ${WEEKDAY_NAMES[weekday]}`;
+      break;
+    }
+  }
+  if (rule.endDate) text += ` until ${formatDate(rule.endDate)}`;
+  else if (rule.count) text += `, ${rule.count} times`;
+  return text;
+};
@@ -0,0 +1,89 @@
+import { Task, TaskStatus, DateRange, ReportTemplate } from '../types';
+import { addDays, daysBetween } from './recurrenceService';
+import { weekStart } from './timesheetService';
+
+export interface RangeDigest {
+  range: DateRange;
+  days: number;
+  totalHours: number;
+  categories: { category: string; hours: number; tasks: Task[] }[];
+  open: Task[];
+  blockers: { name: string; count: number }[]; // Collaborators holding up work, most frequent first
+  postponed: number;
+}
+
+/** What a report is written from: one diary day, or the digest of a date range. */
+export type ReportSource = { kind: 'day'; tasks: Task[] } | { kind: 'range'; digest: RangeDigest };
+
+export type RangePreset = 'today' | 'yesterday' | 'this-week' | 'last-week' | 'this-month' | 'last-month' | 'custom';
+
+export const RANGE_PRESETS: { id: RangePreset; label: string }[] = [
+  { id: 'today', label: 'Today' },
+  { id: 'yesterday', label: 'Yesterday' },
+  { id: 'this-week', label: 'This Week' },
+  { id: 'last-week', label: 'Last Week' },
+  { id: 'this-month', label: 'This Month' },
+  { id: 'last-month', label: 'Last Month' },
+  { id: 'custom', label: 'Custom' }
+];
+
+export const REPORT_TEMPLATES: { id: ReportTemplate; label: string; preset: RangePreset }[] = [
+  { id: 'daily', label: 'Daily Summary', preset: 'today' },
+  { id: 'standup', label: 'Stand-up', preset: 'yesterday' },
+  { id: 'weekly', label: 'Weekly Status', preset: 'this-week' },
+  { id: 'self-review', label: 'Performance Self-Review', preset: 'last-month' }
+];
+
+export const presetRange = (preset: Exclude<RangePreset, 'custom'>, today: string): DateRange => {
+  const monthStart = `${today.slice(0, 8)}01`;
+  switch (preset) {
+    case 'today': return { from: today, to: today };
+    case 'yesterday': return { from: addDays(today, -1), to: addDays(today, -1) };
+    case 'this-week': return { from: weekStart(today), to: today };
+    case 'last-week': return { from: addDays(weekStart(today), -7), to: addDays(weekStart(today), -1) };
+    case 'this-month': return { from: monthStart, to: today };
+    case 'last-month': {
+      const lastMonthEnd = addDays(monthStart, -1);
+      return { from: `${lastMonthEnd.slice(0, 8)}01`, to: lastMonthEnd };
+    }
+  }
+};
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+/** Everything logged on one diary day, open as well as done, so a daily report can cover deadlines and next steps. */
+export const buildDaySource = (tasks: Task[], date: string): Extract<ReportSource, { kind: 'day' }> =>
+  ({ kind: 'day', tasks: tasks.filter(t => !t.recurrence && t.logDate === date) });
+
+/**
+ * The facts a range report is written from, computed locally so the model only has to phrase them:
+ * completed work grouped by category with hours, what is still open, and who keeps blocking what.
+ */
+export const buildRangeDigest = (tasks: Task[], range: DateRange): RangeDigest => {
+  const inRange = tasks.filter(t => !t.recurrence && t.logDate >= range.from && t.logDate <= range.to);
+  const done = inRange.filter(t => t.status === TaskStatus.DONE);
+
+  const byCategory: Record<string, { hours: number; tasks: Task[] }> = {};
+  done.forEach(t => {
+    const group = byCategory[t.category] || (byCategory[t.category] = { hours: 0, tasks: [] });
+    group.hours += t.duration || 0;
+    group.tasks.push(t);
+  });
+
+  const blockerCounts: Record<string, number> = {};
+  inRange.forEach(t => {
+    if (t.blocker && t.blocker !== 'Self') blockerCounts[t.blocker] = (blockerCounts[t.blocker] || 0) + 1;
+  });
+
+  return {
+    range,
+    days: daysBetween(range.from, range.to) + 1,
+    totalHours: round(done.reduce((acc, t) => acc + (t.duration || 0), 0)),
+    categories: Object.entries(byCategory)
+      .map(([category, group]) => ({ category, hours: round(group.hours), tasks: group.tasks }))
+      .sort((a, b) => b.hours - a.hours || b.tasks.length - a.tasks.length),
+    open: inRange.filter(t => t.status !== TaskStatus.DONE),
+    blockers: Object.entries(blockerCounts).map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count),
+    postponed: inRange.reduce((acc, t) => acc + (t.postponements || []).filter(p => p.fromDate >= range.from && p.fromDate <= range.to).length, 0)
+  };
+};
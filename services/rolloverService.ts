@@ -0,0 +1,35 @@
+import { Task, TaskStatus, WorkCalendar } from '../types';
+import { addDays, weekdayOf, occurrencesBetween } from './recurrenceService';
+
+export const isWorkingDay = (date: string, calendar: WorkCalendar) =>
+  calendar.workdays.includes(weekdayOf(date)) && !calendar.holidays.includes(date);
+
+/** First working day on or after `from`; falls back to `from` when the calendar has no working days. */
+export const nextWorkingDay = (from: string, calendar: WorkCalendar): string => {
+  let date = from;
+  for (let i = 0; i < 366; i++) {
+    if (isWorkingDay(date, calendar)) return date;
+    date = addDays(date, 1);
+  }
+  return from;
+};
+
+/**
+ * Open tasks planned for a day before `today`. Occurrences are left out when their series produces
+ * a fresh one on `target` anyway, so a missed daily stand-up does not pile up.
+ */
+export const findStaleTasks = (tasks: Task[], today: string, target: string): Task[] => {
+  const seriesById = new Map(tasks.filter(t => t.recurrence).map(t => [t.id, t]));
+  return tasks.filter(t => {
+    if (t.recurrence || t.status === TaskStatus.DONE || t.logDate >= today) return false;
+    const series = t.seriesId ? seriesById.get(t.seriesId) : undefined;
+    return !series || occurrencesBetween(series, target, target).length === 0;
+  });
+};
+
+export const carryOver = (task: Task, toDate: string, reason: string, automatic = false): Task => ({
+  ...task,
+  logDate: toDate,
+  postponedReason: reason,
+  postponements: [...(task.postponements || []), { fromDate: task.logDate, toDate, reason, at: Date.now(), automatic: automatic || undefined }]
+});
@@ -0,0 +1,131 @@
+/**
+ * SQL the Supabase project needs for the current client. Rendered in the Workspace tab so the
+ * database can be brought up to date by pasting it into the SQL editor; every statement is idempotent.
+ */
+export const SCHEMA_REQUIREMENTS: { title: string; statements: string[] }[] = [
+  {
+    title: 'Core Infrastructure Update',
+    statements: [
+      'CREATE TABLE IF NOT EXISTS knowledge_modules (id BIGSERIAL PRIMARY KEY, user_id UUID REFERENCES auth.users(id), name TEXT);'
+    ]
+  },
+  {
+    title: 'Content Categorization & Hints Update',
+    statements: [
+      "ALTER TABLE important_points ADD COLUMN IF NOT EXISTS module TEXT DEFAULT 'General';",
+      'ALTER TABLE important_points ADD COLUMN IF NOT EXISTS note TEXT;'
+    ]
+  },
+  {
+    title: 'Revision Tracking for Multi-Device Edits',
+    statements: [
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS revision INTEGER DEFAULT 0;',
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();',
+      'ALTER TABLE important_points ADD COLUMN IF NOT EXISTS revision INTEGER DEFAULT 0;',
+      'ALTER TABLE important_points ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();'
+    ]
+  },
+  {
+    title: 'Recurring Task Series',
+    statements: [
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence JSONB;',
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS skipped_dates JSONB;',
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS series_id TEXT;',
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS occurrence_date DATE;',
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS detached BOOLEAN DEFAULT FALSE;'
+    ]
+  },
+  {
+    title: 'Postponement History',
+    statements: [
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS postponements JSONB;'
+    ]
+  },
+  {
+    title: 'Time Tracking',
+    statements: [
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS time_segments JSONB;'
+    ]
+  },
+  {
+    title: 'Saved AI Summaries',
+    statements: [
+      'CREATE TABLE IF NOT EXISTS daily_logs (id TEXT NOT NULL, user_id UUID REFERENCES auth.users(id), date DATE, summary TEXT, summaries JSONB, revision INTEGER DEFAULT 0, updated_at TIMESTAMPTZ DEFAULT now(), created_at TIMESTAMPTZ DEFAULT now(), PRIMARY KEY (user_id, id));',
+      'ALTER TABLE daily_logs ENABLE ROW LEVEL SECURITY;',
+      "DO $$ BEGIN CREATE POLICY \"Users manage their own logs\" ON daily_logs FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id); EXCEPTION WHEN duplicate_object THEN NULL; END $$;"
+    ]
+  },
+  {
+    title: 'Board Ordering',
+    statements: [
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS sort_order DOUBLE PRECISION;'
+    ]
+  },
+  {
+    title: 'Calendar Import & Subscription Feed',
+    statements: [
+      'ALTER TABLE tasks ADD COLUMN IF NOT EXISTS ics_uid TEXT;',
+      "INSERT INTO storage.buckets (id, name, public) VALUES ('calendar-feeds', 'calendar-feeds', true) ON CONFLICT (id) DO NOTHING;",
+      "DO $$ BEGIN CREATE POLICY \"Users publish their own calendar feed\" ON storage.objects FOR ALL USING (bucket_id = 'calendar-feeds' AND (storage.foldername(name))[1] = auth.uid()::TEXT) WITH CHECK (bucket_id = 'calendar-feeds' AND (storage.foldername(name))[1] = auth.uid()::TEXT); EXCEPTION WHEN duplicate_object THEN NULL; END $$;"
+    ]
+  },
+  {
+    title: 'Saved Views',
+    statements: [
+      'CREATE TABLE IF NOT EXISTS saved_views (id TEXT NOT NULL, user_id UUID REFERENCES auth.users(id), name TEXT, conditions JSONB, sort JSONB, revision INTEGER DEFAULT 0, updated_at TIMESTAMPTZ DEFAULT now(), created_at TIMESTAMPTZ DEFAULT now(), PRIMARY KEY (user_id, id));',
+      'ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;',
+      "DO $$ BEGIN CREATE POLICY \"Users manage their own views\" ON saved_views FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id); EXCEPTION WHEN duplicate_object THEN NULL; END $$;"
+    ]
+  },
+  {
+    title: 'Realtime Updates Across Sessions',
+    statements: [
+      'ALTER TABLE team_members REPLICA IDENTITY FULL;',
+      'ALTER TABLE task_categories REPLICA IDENTITY FULL;',
+      'ALTER TABLE knowledge_modules REPLICA IDENTITY FULL;',
+      'DO $$ BEGIN ALTER PUBLICATION supabase_realtime ADD TABLE tasks, important_points, team_members, task_categories, knowledge_modules; EXCEPTION WHEN duplicate_object THEN NULL; END $$;',
+      'DO $$ BEGIN ALTER PUBLICATION supabase_realtime ADD TABLE daily_logs; EXCEPTION WHEN duplicate_object THEN NULL; END $$;',
+      'DO $$ BEGIN ALTER PUBLICATION supabase_realtime ADD TABLE saved_views; EXCEPTION WHEN duplicate_object THEN NULL; END $$;'
+    ]
+  },
+  {
+    title: 'Incremental Sync (each batch runs as one transaction; stale revisions are returned as conflicts)',
+    statements: [
+      'DROP FUNCTION IF EXISTS apply_workspace_changes(JSONB);',
+      `CREATE OR REPLACE FUNCTION apply_workspace_changes(changes JSONB) RETURNS JSONB LANGUAGE plpgsql SECURITY INVOKER AS $$
+DECLARE
+  c JSONB; uid UUID := auth.uid(); target TEXT; current_row JSONB; next_revision INTEGER; assignments TEXT;
+  applied JSONB := '[]'::JSONB; conflicts JSONB := '[]'::JSONB;
+BEGIN
+  FOR c IN SELECT * FROM jsonb_array_elements(changes) LOOP
+    IF c->>'entity' IN ('task', 'point', 'log', 'view') THEN
+      target := CASE c->>'entity' WHEN 'task' THEN 'tasks' WHEN 'log' THEN 'daily_logs' WHEN 'view' THEN 'saved_views' ELSE 'important_points' END;
+      EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id::TEXT = $1 AND user_id = $2 FOR UPDATE', target) INTO current_row USING c->>'key', uid;
+      IF c->>'action' = 'delete' THEN
+        EXECUTE format('DELETE FROM %I WHERE id::TEXT = $1 AND user_id = $2', target) USING c->>'key', uid;
+      ELSIF current_row IS NOT NULL AND COALESCE((current_row->>'revision')::INTEGER, 0) <> COALESCE((c->'data'->>'revision')::INTEGER, 0) THEN
+        conflicts := conflicts || jsonb_build_object('entity', c->>'entity', 'key', c->>'key', 'remote', current_row);
+      ELSE
+        next_revision := COALESCE((c->'data'->>'revision')::INTEGER, 0) + 1;
+        -- An upsert in place, so realtime subscribers see one UPDATE instead of a DELETE and an INSERT.
+        SELECT string_agg(format('%I = EXCLUDED.%I', column_name, column_name), ', ') INTO assignments
+          FROM information_schema.columns WHERE table_schema = 'public' AND table_name = target AND column_name NOT IN ('id', 'user_id');
+        EXECUTE format('INSERT INTO %I SELECT * FROM jsonb_populate_record(NULL::%I, $1) ON CONFLICT (%s) DO UPDATE SET %s WHERE %I.user_id = EXCLUDED.user_id',
+          target, target, CASE WHEN target IN ('daily_logs', 'saved_views') THEN 'user_id, id' ELSE 'id' END, assignments, target)
+          USING c->'data' || jsonb_build_object('user_id', uid, 'revision', next_revision, 'updated_at', now());
+        applied := applied || jsonb_build_object('entity', c->>'entity', 'key', c->>'key', 'revision', next_revision, 'updated_at', now());
+      END IF;
+    ELSE
+      target := CASE c->>'entity' WHEN 'team' THEN 'team_members' WHEN 'category' THEN 'task_categories' ELSE 'knowledge_modules' END;
+      IF c->>'action' = 'upsert' THEN
+        EXECUTE format('INSERT INTO %I (user_id, name) SELECT $1, $2 WHERE NOT EXISTS (SELECT 1 FROM %I WHERE user_id = $1 AND name = $2)', target, target) USING uid, c->>'key';
+      ELSE
+        EXECUTE format('DELETE FROM %I WHERE user_id = $1 AND name = $2', target) USING uid, c->>'key';
+      END IF;
+    END IF;
+  END LOOP;
+  RETURN jsonb_build_object('applied', applied, 'conflicts', conflicts);
+END $$;`
+    ]
+  }
+];
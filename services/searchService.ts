@@ -0,0 +1,269 @@
+import { Task, TaskStatus, ImportantPoint } from '../types';
+
+export type SearchKind = 'task' | 'point';
+
+export interface SearchDoc {
+  kind: SearchKind;
+  id: string;
+  title: string;
+  date: string; // Planned date for tasks, creation day for points
+  category: string; // Task category or knowledge module
+  status?: TaskStatus;
+  fields: { label: string; text: string }[];
+}
+
+export interface SearchIndex {
+  docs: SearchDoc[];
+  postings: Map<string, Map<number, number>>; // Term -> document -> weight
+  vocabulary: string[]; // Sorted, for prefix lookups
+  byLength: Map<number, string[]>; // For fuzzy lookups, which only compare terms of similar length
+}
+
+export interface SearchQuery {
+  terms: string[];
+  category?: string;
+  status?: TaskStatus | 'OPEN';
+  kind?: SearchKind;
+  before?: string;
+  after?: string;
+}
+
+export interface SearchResult {
+  doc: SearchDoc;
+  score: number;
+  matched: string[]; // Indexed terms that matched, for highlighting
+}
+
+// Title hits count for more than hits in long free-text fields.
+const FIELD_WEIGHTS: Record<string, number> = { Title: 3, Content: 3, Blocker: 2 };
+
+export const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+const taskDoc = (t: Task): SearchDoc => ({
+  kind: 'task',
+  id: t.id,
+  title: t.title,
+  date: t.logDate,
+  category: t.category,
+  status: t.status,
+  fields: [
+    { label: 'Title', text: t.title },
+    { label: 'Description', text: t.description || '' },
+    { label: 'Notes', text: t.notes || '' },
+    { label: 'Blocker', text: t.blocker && t.blocker !== 'Self' ? t.blocker : '' },
+    { label: 'Postponed', text: [t.postponedReason, ...(t.postponements || []).map(p => p.reason)].filter(Boolean).join(' · ') }
+  ].filter(f => f.text)
+});
+
+const pointDoc = (p: ImportantPoint): SearchDoc => ({
+  kind: 'point',
+  id: p.id,
+  title: p.content,
+  date: new Date(p.createdAt).toISOString().split('T')[0],
+  category: p.module,
+  fields: [
+    { label: 'Content', text: p.content },
+    { label: 'Note', text: p.note || '' }
+  ].filter(f => f.text)
+});
+
+/**
+ * Inverted index over tasks and knowledge points: each term maps to the documents containing it, so a
+ * query only touches the documents that share its terms instead of scanning every task.
+ */
+export const buildSearchIndex = (tasks: Task[], points: ImportantPoint[]): SearchIndex => {
+  const docs = [...tasks.filter(t => !t.recurrence).map(taskDoc), ...points.map(pointDoc)];
+  const postings = new Map<string, Map<number, number>>();
+  docs.forEach((doc, i) => {
+    doc.fields.forEach(field => {
+      const weight = FIELD_WEIGHTS[field.label] || 1;
+      tokenize(field.text).forEach(term => {
+        let list = postings.get(term);
+        if (!list) postings.set(term, list = new Map());
+        list.set(i, (list.get(i) || 0) + weight);
+      });
+    });
+  });
+
+  const vocabulary = [...postings.keys()].sort();
+  const byLength = new Map<number, string[]>();
+  vocabulary.forEach(term => {
+    const bucket = byLength.get(term.length);
+    if (bucket) bucket.push(term);
+    else byLength.set(term.length, [term]);
+  });
+  return { docs, postings, vocabulary, byLength };
+};
+
+const STATUS_WORDS: Record<string, TaskStatus | 'OPEN'> = {
+  todo: TaskStatus.TODO,
+  'to-do': TaskStatus.TODO,
+  progress: TaskStatus.IN_PROGRESS,
+  in_progress: TaskStatus.IN_PROGRESS,
+  'in-progress': TaskStatus.IN_PROGRESS,
+  doing: TaskStatus.IN_PROGRESS,
+  done: TaskStatus.DONE,
+  completed: TaskStatus.DONE,
+  open: 'OPEN'
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Applies one `key:value` filter; false when the key or value is not understood.
+const applyFilter = (query: SearchQuery, key: string, value: string): boolean => {
+  if (!value) return false;
+  if (key === 'category' || key === 'cat' || key === 'module') {
+    query.category = value.toLowerCase();
+    return true;
+  }
+  if (key === 'status' || key === 'is') {
+    const status = STATUS_WORDS[value.toLowerCase()];
+    if (status) query.status = status;
+    return Boolean(status);
+  }
+  if (key === 'type' || key === 'in') {
+    const kind = value.toLowerCase().replace(/s$/, '');
+    if (kind === 'task') query.kind = 'task';
+    else if (kind === 'point' || kind === 'knowledge') query.kind = 'point';
+    else return false;
+    return true;
+  }
+  if ((key === 'before' || key === 'after') && DATE_PATTERN.test(value)) {
+    query[key] = value;
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Splits "category:"Bug Fix" status:done before:2024-06-01 login" into filters and free terms. A filter
+ * with a value it cannot read is kept as plain text so nothing the user typed is silently dropped.
+ */
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const query: SearchQuery = { terms: [] };
+  const tokens = input.match(/(\w+):"([^"]*)"?|\S+/g) || [];
+  tokens.forEach(token => {
+    const filter = token.match(/^(\w+):(?:"([^"]*)"?|(.+))$/);
+    if (filter && applyFilter(query, filter[1].toLowerCase(), (filter[2] ?? filter[3] ?? '').trim())) return;
+    query.terms.push(...tokenize(token));
+  });
+  return query;
+};
+
+// Levenshtein distance, giving up early once it is certainly above `max`.
+const withinDistance = (a: string, b: string, max: number) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return false;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+};
+
+/** Indexed terms a query term stands for: itself, words it starts (when typing), and near misspellings. */
+const expandTerm = (index: SearchIndex, term: string): Map<string, number> => {
+  const matches = new Map<string, number>();
+  if (index.postings.has(term)) matches.set(term, 1);
+
+  // Binary search for the first vocabulary entry >= term, then walk the prefix range.
+  let low = 0;
+  let high = index.vocabulary.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index.vocabulary[mid] < term) low = mid + 1;
+    else high = mid;
+  }
+  for (let i = low; i < index.vocabulary.length && index.vocabulary[i].startsWith(term); i++) {
+    if (!matches.has(index.vocabulary[i])) matches.set(index.vocabulary[i], 0.7);
+  }
+
+  const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  for (let length = term.length - maxEdits; length <= term.length + maxEdits; length++) {
+    (index.byLength.get(length) || []).forEach(candidate => {
+      if (!matches.has(candidate) && withinDistance(term, candidate, maxEdits)) matches.set(candidate, 0.4);
+    });
+  }
+  return matches;
+};
+
+const passesFilters = (doc: SearchDoc, query: SearchQuery) => {
+  if (query.kind && doc.kind !== query.kind) return false;
+  if (query.category && !doc.category.toLowerCase().includes(query.category)) return false;
+  if (query.status) {
+    if (doc.kind !== 'task') return false;
+    if (query.status === 'OPEN' ? doc.status === TaskStatus.DONE : doc.status !== query.status) return false;
+  }
+  if (query.before && doc.date >= query.before) return false;
+  if (query.after && doc.date <= query.after) return false;
+  return true;
+};
+
+const hasFilters = (query: SearchQuery) => Boolean(query.category || query.status || query.kind || query.before || query.after);
+
+/**
+ * Documents matching every term (exactly, by prefix or fuzzily) and all filters, best first. A query of
+ * filters alone lists the matching documents newest first.
+ */
+export const searchIndex = (index: SearchIndex, query: SearchQuery, limit = 50): SearchResult[] => {
+  if (query.terms.length === 0) {
+    if (!hasFilters(query)) return [];
+    return index.docs
+      .filter(doc => passesFilters(doc, query))
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, limit)
+      .map(doc => ({ doc, score: 0, matched: [] }));
+  }
+
+  let scores: Map<number, number> | null = null;
+  const matched = new Map<number, Set<string>>();
+  for (const term of query.terms) {
+    const termScores = new Map<number, number>();
+    expandTerm(index, term).forEach((quality, word) => {
+      index.postings.get(word)!.forEach((weight, doc) => {
+        if (scores && !scores.has(doc)) return;
+        termScores.set(doc, Math.max(termScores.get(doc) || 0, weight * quality));
+        matched.set(doc, (matched.get(doc) || new Set()).add(word));
+      });
+    });
+    scores = scores
+      ? new Map([...termScores].map(([doc, score]) => [doc, scores!.get(doc)! + score]))
+      : termScores;
+    if (scores.size === 0) return [];
+  }
+
+  return [...scores!]
+    .filter(([doc]) => passesFilters(index.docs[doc], query))
+    .sort((a, b) => b[1] - a[1] || index.docs[b[0]].date.localeCompare(index.docs[a[0]].date))
+    .slice(0, limit)
+    .map(([doc, score]) => ({ doc: index.docs[doc], score, matched: [...matched.get(doc)!] }));
+};
+
+/**
+ * The field to show under a result, cut to a window around its first highlighted term, as segments
+ * flagged for highlighting.
+ */
+export const resultSnippet = (result: SearchResult, width = 120): { label: string; parts: { text: string; hit: boolean }[] } | null => {
+  const words = new Set(result.matched);
+  const isHit = (word: string) => words.has(word.toLowerCase());
+  const field = result.doc.fields.find(f => f.label !== 'Title' && f.label !== 'Content' && tokenize(f.text).some(isHit))
+    || result.doc.fields.find(f => f.label !== 'Title' && f.label !== 'Content');
+  if (!field) return null;
+
+  const firstHit = tokenize(field.text).find(isHit);
+  const at = firstHit ? field.text.toLowerCase().indexOf(firstHit) : 0;
+  const start = Math.max(0, at - width / 3);
+  const text = `${start > 0 ? '…' : ''}${field.text.slice(start, start + width)}${start + width < field.text.length ? '…' : ''}`;
+  return { label: field.label, parts: highlight(text, result.matched) };
+};
+
+/** Splits `text` into runs, flagging the words that matched the query. */
+export const highlight = (text: string, matched: string[]): { text: string; hit: boolean }[] => {
+  const words = new Set(matched);
+  return text.split(/([\p{L}\p{N}]+)/u).filter(Boolean).map(run => ({ text: run, hit: words.has(run.toLowerCase()) }));
+};
@@ -0,0 +1,41 @@
+import { WorkCalendar, LlmSettings } from '../types';
+import { DEFAULT_LLM_SETTINGS } from './llmProviders';
+
+const DEFAULT_WORK_CALENDAR: WorkCalendar = { workdays: [1, 2, 3, 4, 5], holidays: [] };
+
+const storageKey = (userId: string, name: string) => `worksync-settings:${userId}:${name}`;
+
+const read = <T>(userId: string, name: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(storageKey(userId, name));
+    return raw ? { ...fallback, ...JSON.parse(raw) } : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+const write = <T>(userId: string, name: string, value: T) => {
+  localStorage.setItem(storageKey(userId, name), JSON.stringify(value));
+};
+
+/**
+ * Per-user preferences that only shape how this device presents the workspace. Kept in
+ * localStorage rather than the synced workspace.
+ */
+export const settingsService = {
+  getWorkCalendar: (userId: string): WorkCalendar => read(userId, 'work-calendar', DEFAULT_WORK_CALENDAR),
+  saveWorkCalendar: (userId: string, calendar: WorkCalendar) => write(userId, 'work-calendar', calendar),
+
+  getDailyTargetHours: (userId: string): number => read(userId, 'timesheet', { targetHours: 8 }).targetHours,
+  saveDailyTargetHours: (userId: string, targetHours: number) => write(userId, 'timesheet', { targetHours }),
+
+  getLlmSettings: (userId: string): LlmSettings => read(userId, 'llm', DEFAULT_LLM_SETTINGS),
+  saveLlmSettings: (userId: string, settings: LlmSettings) => write(userId, 'llm', settings),
+
+  // Token of the published calendar feed; null while the feed is off.
+  getCalendarFeedToken: (userId: string): string | null => read<{ token: string | null }>(userId, 'calendar-feed', { token: null }).token,
+  saveCalendarFeedToken: (userId: string, token: string | null) => write(userId, 'calendar-feed', { token }),
+
+  getRolloverDismissedOn: (userId: string): string | null => localStorage.getItem(storageKey(userId, 'rollover-dismissed')),
+  setRolloverDismissedOn: (userId: string, date: string) => localStorage.setItem(storageKey(userId, 'rollover-dismissed'), date)
+};
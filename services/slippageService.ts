@@ -0,0 +1,52 @@
+import { Task } from '../types';
+import { daysBetween } from './recurrenceService';
+
+export interface SlippageReport {
+  mostPostponed: { task: Task; count: number; daysSlipped: number }[];
+  delayByCategory: { category: string; averageDays: number; moves: number }[];
+  topReasons: { reason: string; count: number }[];
+}
+
+/**
+ * Summarizes the postponement history of every task. Delays count calendar days between the planned
+ * and the new date; moves to an earlier date are left out of the averages.
+ */
+export const buildSlippageReport = (tasks: Task[], limit = 5): SlippageReport => {
+  const withHistory = tasks.filter(t => !t.recurrence && t.postponements && t.postponements.length > 0);
+
+  const mostPostponed = withHistory
+    .map(task => ({
+      task,
+      count: task.postponements!.length,
+      daysSlipped: task.postponements!.reduce((acc, p) => acc + Math.max(0, daysBetween(p.fromDate, p.toDate)), 0)
+    }))
+    .sort((a, b) => b.count - a.count || b.daysSlipped - a.daysSlipped)
+    .slice(0, limit);
+
+  const byCategory: Record<string, { total: number; moves: number }> = {};
+  const reasons: Record<string, { reason: string; count: number }> = {};
+  withHistory.forEach(task => {
+    task.postponements!.forEach(p => {
+      const delay = daysBetween(p.fromDate, p.toDate);
+      if (delay > 0) {
+        const bucket = byCategory[task.category] || (byCategory[task.category] = { total: 0, moves: 0 });
+        bucket.total += delay;
+        bucket.moves++;
+      }
+      // Reasons are grouped case-insensitively; the first spelling seen is the one displayed.
+      const text = (p.reason || '').trim();
+      if (!text) return;
+      const key = text.toLowerCase();
+      if (!reasons[key]) reasons[key] = { reason: text, count: 0 };
+      reasons[key].count++;
+    });
+  });
+
+  return {
+    mostPostponed,
+    delayByCategory: Object.entries(byCategory)
+      .map(([category, { total, moves }]) => ({ category, averageDays: Math.round((total / moves) * 10) / 10, moves }))
+      .sort((a, b) => b.averageDays - a.averageDays),
+    topReasons: Object.values(reasons).sort((a, b) => b.count - a.count).slice(0, limit)
+  };
+};
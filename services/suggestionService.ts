@@ -0,0 +1,151 @@
+import { Task, TaskPriority, LlmSettings } from '../types';
+import { generateJson } from './llmProviders';
+
+export interface TaskSuggestion {
+  category?: string;
+  priority?: TaskPriority;
+  duration?: number; // Hours
+  source: 'history' | 'ai';
+  basis: string[]; // Titles of the past tasks the suggestion was drawn from
+}
+
+interface IndexedTask {
+  task: Task;
+  weights: Map<string, number>;
+  norm: number;
+}
+
+export interface SuggestionIndex {
+  docs: IndexedTask[];
+  idf: Map<string, number>;
+}
+
+const STOPWORDS = new Set(['a', 'an', 'and', 'the', 'to', 'for', 'of', 'on', 'in', 'with', 'at', 'by', 'from', 'is', 'it', 'my', 'our', 'up']);
+
+const tokenize = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1 && !STOPWORDS.has(word));
+
+const termCounts = (text: string) => {
+  const counts = new Map<string, number>();
+  tokenize(text).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+  return counts;
+};
+
+const weigh = (counts: Map<string, number>, idf: Map<string, number>) => {
+  const weights = new Map<string, number>();
+  let sum = 0;
+  counts.forEach((count, word) => {
+    const weight = count * (idf.get(word) || 0);
+    weights.set(word, weight);
+    sum += weight * weight;
+  });
+  return { weights, norm: Math.sqrt(sum) };
+};
+
+/**
+ * TF-IDF vectors over the titles and notes of past tasks. Words that appear on most tasks ("meeting",
+ * "review") count for little; distinctive ones ("invoice", "staging") decide the neighbours.
+ */
+export const buildSuggestionIndex = (tasks: Task[]): SuggestionIndex => {
+  const history = tasks.filter(t => !t.recurrence && t.title);
+  const counts = history.map(t => termCounts(`${t.title} ${t.notes || ''}`));
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(c => c.forEach((_, word) => documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1)));
+  const idf = new Map<string, number>();
+  documentFrequency.forEach((df, word) => idf.set(word, Math.log((history.length + 1) / (df + 0.5))));
+  return {
+    idf,
+    docs: history.map((task, i) => ({ task, ...weigh(counts[i], idf) })).filter(d => d.norm > 0)
+  };
+};
+
+const MIN_SIMILARITY = 0.2;
+const NEIGHBOURS = 7;
+
+const topVote = <T extends string>(votes: Map<T, number>, total: number): T | undefined => {
+  const [best] = [...votes.entries()].sort((a, b) => b[1] - a[1]);
+  // A suggestion needs a clear majority of the neighbours' weight behind it.
+  return best && best[1] / total >= 0.5 ? best[0] : undefined;
+};
+
+/** Suggests fields from the most similar past tasks; null when nothing in the history is close enough. */
+export const suggestFromHistory = (index: SuggestionIndex, text: string): TaskSuggestion | null => {
+  const query = weigh(termCounts(text), index.idf);
+  if (query.norm === 0) return null;
+
+  const neighbours = index.docs
+    .map(doc => {
+      let dot = 0;
+      query.weights.forEach((weight, word) => { dot += weight * (doc.weights.get(word) || 0); });
+      return { task: doc.task, similarity: dot / (query.norm * doc.norm) };
+    })
+    .filter(n => n.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, NEIGHBOURS);
+  if (neighbours.length === 0) return null;
+
+  const total = neighbours.reduce((acc, n) => acc + n.similarity, 0);
+  const categories = new Map<string, number>();
+  const priorities = new Map<TaskPriority, number>();
+  neighbours.forEach(({ task, similarity }) => {
+    categories.set(task.category, (categories.get(task.category) || 0) + similarity);
+    priorities.set(task.priority, (priorities.get(task.priority) || 0) + similarity);
+  });
+
+  // Weighted mean over the neighbours that recorded time, rounded to the quarter hour.
+  const timed = neighbours.filter(n => n.task.duration && n.task.duration > 0);
+  const timedWeight = timed.reduce((acc, n) => acc + n.similarity, 0);
+  const duration = timed.length > 0
+    ? Math.max(0.25, Math.round(timed.reduce((acc, n) => acc + n.task.duration! * n.similarity, 0) / timedWeight * 4) / 4)
+    : undefined;
+
+  return {
+    category: topVote(categories, total),
+    priority: topVote(priorities, total),
+    duration,
+    source: 'history',
+    basis: neighbours.slice(0, 3).map(n => n.task.title)
+  };
+};
+
+const SUGGESTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    category: { type: 'string' },
+    priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH'] },
+    durationHours: { type: 'number' }
+  },
+  required: ['category', 'priority']
+};
+
+/**
+ * Asks the configured model, showing it the closest past tasks as examples of how this user files
+ * and estimates work. Only existing categories are accepted.
+ */
+export const suggestWithAi = async (index: SuggestionIndex, text: string, categories: string[], settings: LlmSettings): Promise<TaskSuggestion> => {
+  const examples = (suggestFromHistory(index, text)?.basis || [])
+    .map(title => index.docs.find(d => d.task.title === title)!.task)
+    .map(t => `- "${t.title}" → ${t.category}, ${t.priority}${t.duration ? `, ${t.duration}h` : ''}`)
+    .join('\n');
+
+  const result = await generateJson({
+    prompt: `
+        Suggest a category, priority and time estimate in hours for this task: "${text.trim()}"
+        The category must be one of: ${categories.join(', ')}
+        ${examples ? `Similar past tasks:\n${examples}` : ''}
+      `,
+    schema: SUGGESTION_SCHEMA,
+    local: () => {
+      const fromHistory = suggestFromHistory(index, text);
+      return { category: fromHistory?.category, priority: fromHistory?.priority, durationHours: fromHistory?.duration };
+    }
+  }, settings);
+
+  return {
+    category: categories.find(c => c.toLowerCase() === String(result.category || '').toLowerCase()),
+    priority: Object.values(TaskPriority).includes(result.priority) ? result.priority : undefined,
+    duration: typeof result.durationHours === 'number' && result.durationHours > 0 ? Math.max(0.25, Math.round(result.durationHours * 4) / 4) : undefined,
+    source: 'ai',
+    basis: []
+  };
+};
@@ -0,0 +1,31 @@
+import { DailyLog, SummaryVersion, SummarySection } from '../types';
+import { sectionsToMarkdown } from './aiReportService';
+
+export const findLog = (logs: DailyLog[], date: string) => logs.find(l => l.id === date);
+
+// `summary` mirrors the newest version as markdown, for readers that only want the text.
+const withVersions = (log: DailyLog, summaries: SummaryVersion[]): DailyLog => {
+  const latest = summaries[summaries.length - 1];
+  return { ...log, summaries, summary: latest ? sectionsToMarkdown(latest.sections) : undefined };
+};
+
+/** Files a newly generated report under `date`, creating that day's log when needed. */
+export const addSummaryVersion = (logs: DailyLog[], date: string, version: SummaryVersion): DailyLog[] => {
+  const existing = findLog(logs, date);
+  if (!existing) return [withVersions({ id: date, date }, [version]), ...logs];
+  return logs.map(l => l === existing ? withVersions(l, [...(l.summaries || []), version]) : l);
+};
+
+export const updateSummaryVersion = (logs: DailyLog[], date: string, versionId: string, sections: SummarySection[]): DailyLog[] =>
+  logs.map(l => l.id !== date ? l : withVersions(l, (l.summaries || []).map(v => v.id === versionId ? { ...v, sections } : v)));
+
+/**
+ * Combines two copies of the same day's log, such as a local write and the server row it went stale
+ * against. Versions are matched by id and `preferred` wins for versions both sides have edited.
+ */
+export const mergeLogVersions = (preferred: DailyLog, other: DailyLog): DailyLog => {
+  const known = new Set((preferred.summaries || []).map(v => v.id));
+  const summaries = [...(preferred.summaries || []), ...(other.summaries || []).filter(v => !known.has(v.id))]
+    .sort((a, b) => a.createdAt - b.createdAt);
+  return withVersions({ ...preferred, revision: other.revision ?? preferred.revision }, summaries);
+};
@@ -0,0 +1,183 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Task, TaskStatus, TaskPriority, EntityChange, SyncResult, Workspace, SavedView } from '../types';
+import { fakeSupabase } from './testing/fakeSupabase';
+import { apiService } from './apiService';
+import { diffWorkspace } from './changeTracker';
+import { mergeRecords } from './conflictService';
+import { localStore } from './localStore';
+import { syncQueue } from './syncQueue';
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { fakeSupabase } = await import('./testing/fakeSupabase');
+  return { createClient: () => fakeSupabase };
+});
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Fix login',
+  description: '',
+  status: TaskStatus.TODO,
+  priority: TaskPriority.HIGH,
+  category: 'Bug Fix',
+  createdAt: Date.UTC(2026, 9, 1),
+  logDate: '2026-10-19',
+  ...overrides
+});
+
+const upsert = (data: Task, base?: Task): EntityChange => ({ entity: 'task', key: data.id, action: 'upsert', data, base });
+
+const workspace = (overrides: Partial<Workspace>): Workspace => ({ tasks: [], team: [], categories: [], points: [], modules: [], logs: [], views: [], ...overrides });
+
+describe('syncQueue', () => {
+  let userId: string;
+  let results: SyncResult[];
+  let scheduleFlush: ReturnType<typeof vi.spyOn>;
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    // Each test gets its own outbox; IndexedDB persists across tests in the same file.
+    userId = `user-${Math.random().toString(36).slice(2)}`;
+    fakeSupabase.reset();
+    vi.stubGlobal('navigator', { onLine: true });
+    // Flushes run only when a test asks for one, never from a timer or on activation.
+    scheduleFlush = vi.spyOn(syncQueue, 'scheduleFlush').mockImplementation(() => {});
+    vi.spyOn(syncQueue, 'flush').mockResolvedValueOnce();
+    syncQueue.activate(userId);
+    results = [];
+    unsubscribe = syncQueue.onResult(result => results.push(result));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    syncQueue.deactivate();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('sends queued changes and clears the outbox once the server accepts them', async () => {
+    await syncQueue.enqueue(userId, [upsert(task()), { entity: 'category', key: 'Bug Fix', action: 'upsert' }]);
+    expect(await localStore.countOutbox(userId)).toBe(2);
+
+    await syncQueue.flush();
+
+    expect(fakeSupabase.rows('tasks')).toEqual([expect.objectContaining({ id: 't1', revision: 1 })]);
+    expect(fakeSupabase.rows('task_categories')).toEqual([expect.objectContaining({ name: 'Bug Fix' })]);
+    expect(await localStore.countOutbox(userId)).toBe(0);
+    expect(results).toEqual([{ applied: [expect.objectContaining({ entity: 'task', key: 't1', revision: 1 })], stale: [] }]);
+    expect(syncQueue.getSnapshot()).toEqual({ pending: 0, state: 'idle' });
+  });
+
+  it('keeps only the latest edit to an entity that is edited again before syncing', async () => {
+    const base = task({ revision: 2 });
+    const firstEdit = task({ title: 'First edit', revision: 2 });
+    await syncQueue.enqueue(userId, diffWorkspace(workspace({ tasks: [base] }), workspace({ tasks: [firstEdit] })));
+    await syncQueue.enqueue(userId, diffWorkspace(workspace({ tasks: [firstEdit] }), workspace({ tasks: [task({ title: 'Second edit', revision: 2 })] })));
+
+    const [entry] = await localStore.listOutbox(userId);
+    expect(await localStore.countOutbox(userId)).toBe(1);
+    expect(entry.change.data).toMatchObject({ title: 'Second edit' });
+    // The base stays the copy the server has, not the intermediate local edit.
+    expect(entry.change.base).toEqual(base);
+  });
+
+  it('reports a stale write with the server copy and drops it from the outbox', async () => {
+    fakeSupabase.seed('tasks', { id: 't1', title: 'Renamed elsewhere', status: 'TODO', priority: 'HIGH', category: 'Bug Fix', log_date: '2026-10-19', revision: 3 });
+    const change = upsert(task({ title: 'Renamed here', revision: 2 }), task({ revision: 2 }));
+    await syncQueue.enqueue(userId, [change]);
+
+    await syncQueue.flush();
+
+    expect(results).toHaveLength(1);
+    expect(results[0].applied).toEqual([]);
+    expect(results[0].stale).toEqual([{ change, remote: expect.objectContaining({ title: 'Renamed elsewhere', revision: 3 }) }]);
+    expect(await localStore.countOutbox(userId)).toBe(0);
+    expect(fakeSupabase.rows('tasks')[0].title).toBe('Renamed elsewhere');
+  });
+
+  it('holds changes without calling the server while the browser is offline', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    await syncQueue.enqueue(userId, [upsert(task())]);
+
+    await syncQueue.flush();
+
+    expect(fakeSupabase.rpcCalls).toHaveLength(0);
+    expect(syncQueue.getSnapshot()).toEqual({ pending: 1, state: 'offline' });
+
+    vi.stubGlobal('navigator', { onLine: true });
+    await syncQueue.flush();
+    expect(await localStore.countOutbox(userId)).toBe(0);
+  });
+
+  it('keeps the whole batch and retries later when the request fails', async () => {
+    fakeSupabase.offline = true;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await syncQueue.enqueue(userId, [upsert(task()), upsert(task({ id: 't2' }))]);
+
+    await syncQueue.flush();
+
+    expect(fakeSupabase.rpcCalls).toHaveLength(1);
+    expect(await localStore.countOutbox(userId)).toBe(2);
+    expect(syncQueue.getSnapshot()).toEqual({ pending: 2, state: 'error' });
+    expect(scheduleFlush).toHaveBeenCalledWith(15000);
+    expect(results).toEqual([]);
+
+    fakeSupabase.offline = false;
+    await syncQueue.flush();
+    expect(await localStore.countOutbox(userId)).toBe(0);
+    expect(fakeSupabase.rows('tasks')).toHaveLength(2);
+  });
+
+  it('rebases an edit made while its batch was in flight onto the new revision', async () => {
+    await syncQueue.enqueue(userId, [upsert(task({ title: 'Sent' }))]);
+    const rpc = fakeSupabase.rpc;
+    vi.spyOn(fakeSupabase, 'rpc').mockImplementationOnce(async (fn, args) => {
+      await syncQueue.enqueue(userId, [upsert(task({ title: 'Edited meanwhile' }))]);
+      return rpc(fn, args);
+    });
+
+    await syncQueue.flush();
+
+    const [entry] = await localStore.listOutbox(userId);
+    expect(entry.change.data).toMatchObject({ title: 'Edited meanwhile', revision: 1 });
+    expect(entry.change.base).toMatchObject({ title: 'Sent', revision: 1 });
+    expect(scheduleFlush).toHaveBeenCalledWith();
+
+    // The follow-up pass lands without a conflict, since it now carries the revision the server assigned.
+    await syncQueue.flush();
+    expect(results[1]).toEqual({ applied: [expect.objectContaining({ key: 't1', revision: 2 })], stale: [] });
+    expect(fakeSupabase.rows('tasks')[0].title).toBe('Edited meanwhile');
+  });
+
+  it('merges a stale edit with a change made elsewhere to a different field', async () => {
+    // This session loaded revision 1; another device then lowered the priority.
+    await apiService.applyChanges([{ entity: 'task', key: 't1', action: 'upsert', data: task() }]);
+    const loaded = task({ revision: 1 });
+    await apiService.applyChanges([{ entity: 'task', key: 't1', action: 'upsert', data: task({ priority: TaskPriority.LOW, revision: 1 }) }]);
+
+    await syncQueue.enqueue(userId, diffWorkspace(workspace({ tasks: [loaded] }), workspace({ tasks: [{ ...loaded, status: TaskStatus.IN_PROGRESS }] })));
+    await syncQueue.flush();
+
+    const [{ change, remote }] = results[0].stale;
+    const { merged, fields } = mergeRecords(change.base as Task, change.data as Task, remote as Task);
+    expect(fields).toEqual([]);
+    expect(merged).toMatchObject({ status: TaskStatus.IN_PROGRESS, priority: TaskPriority.LOW, revision: 2 });
+  });
+
+  it('reports a stale saved view with the fields both sides changed', async () => {
+    const view: SavedView = { id: 'v1', name: 'Blocked', conditions: [{ field: 'blocker', operator: 'isSet' }], sort: [], createdAt: 1 };
+    await apiService.applyChanges([{ entity: 'view', key: 'v1', action: 'upsert', data: view }]);
+    const loaded = { ...view, revision: 1 };
+    // Renamed and sorted on another device; renamed and narrowed here.
+    await apiService.applyChanges([{ entity: 'view', key: 'v1', action: 'upsert', data: { ...loaded, name: 'Waiting on others', sort: [{ field: 'dueDate', direction: 'asc' }] } }]);
+    const edited: SavedView = { ...loaded, name: 'Blocked work', conditions: [...view.conditions, { field: 'priority', operator: 'is', value: 'HIGH' }] };
+
+    await syncQueue.enqueue(userId, diffWorkspace(workspace({ views: [loaded] }), workspace({ views: [edited] })));
+    await syncQueue.flush();
+
+    const [{ change, remote }] = results[0].stale;
+    const { merged, fields } = mergeRecords(change.base as SavedView, change.data as SavedView, remote as SavedView);
+    expect(fields).toEqual(['name']);
+    expect(merged).toMatchObject({ name: 'Waiting on others', conditions: edited.conditions, sort: [{ field: 'dueDate', direction: 'asc' }] });
+  });
+});
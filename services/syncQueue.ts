@@ -0,0 +1,147 @@
+import { EntityChange, SyncSnapshot, SyncState, SyncResult, StaleWrite } from '../types';
+import { localStore, outboxEntryId } from './localStore';
+import { apiService } from './apiService';
+
+const RETRY_DELAY_MS = 15000;
+const MAX_BATCH_SIZE = 200;
+
+type SyncListener = (snapshot: SyncSnapshot) => void;
+type ResultListener = (result: SyncResult) => void;
+
+const listeners = new Set<SyncListener>();
+const resultListeners = new Set<ResultListener>();
+let snapshot: SyncSnapshot = { pending: 0, state: 'idle' };
+let flushing = false;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let activeUserId: string | null = null;
+let lastStamp = 0;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+export const pendingKey = (entity: string, key: string) => `${entity}:${key}`;
+
+// Strictly increasing, so a re-queued edit is always distinguishable from the copy that is in flight.
+const nextStamp = () => {
+  lastStamp = Math.max(Date.now(), lastStamp + 1);
+  return lastStamp;
+};
+
+const publish = async (state?: SyncState) => {
+  const pending = activeUserId ? await localStore.countOutbox(activeUserId) : 0;
+  snapshot = { pending, state: state ?? (isOnline() ? 'idle' : 'offline') };
+  listeners.forEach(listener => listener(snapshot));
+};
+
+export const syncQueue = {
+  /**
+   * Binds the queue to the signed-in account. Only that account's entries are replayed, since
+   * the Supabase session cannot write on behalf of anyone else.
+   */
+  activate: (userId: string) => {
+    activeUserId = userId;
+    syncQueue.flush();
+  },
+
+  deactivate: () => {
+    activeUserId = null;
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+    publish().catch(() => {});
+  },
+
+  /**
+   * Persists changes to the outbox before anything is sent, so a closed tab or dropped connection
+   * only delays them. A newer change to the same entity replaces the pending one.
+   */
+  enqueue: async (userId: string, changes: EntityChange[]): Promise<void> => {
+    if (changes.length === 0) return;
+    const ids = changes.map(change => outboxEntryId(userId, change));
+    const existing = new Map((await localStore.getOutboxEntries(ids)).map(e => [e.id, e]));
+    await localStore.putOutboxEntries(changes.map((change, i) => {
+      // Repeated edits before a sync keep the base of the first one, i.e. the copy the server has.
+      const previous = existing.get(ids[i])?.change;
+      const keepBase = previous?.base && previous.data?.revision === change.data?.revision;
+      return {
+        id: ids[i],
+        userId,
+        change: keepBase ? { ...change, base: previous!.base } : change,
+        createdAt: nextStamp()
+      };
+    }));
+    await publish(flushing ? 'syncing' : undefined);
+  },
+
+  scheduleFlush: (delayMs = 0) => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      syncQueue.flush();
+    }, delayMs);
+  },
+
+  flush: async (): Promise<void> => {
+    if (flushing || !activeUserId) return;
+    if (!isOnline()) {
+      await publish('offline');
+      return;
+    }
+    flushing = true;
+    await publish('syncing');
+    let failed = false;
+    try {
+      const entries = (await localStore.listOutbox(activeUserId)).slice(0, MAX_BATCH_SIZE);
+      if (entries.length > 0) {
+        try {
+          const userId = activeUserId;
+          const { applied, conflicts } = await apiService.applyChanges(entries.map(e => e.change));
+          const sentById = new Map(entries.map(e => [e.id, e.change]));
+          const stale: StaleWrite[] = conflicts
+            .filter(c => sentById.has(outboxEntryId(userId, c)))
+            .map(c => ({ change: sentById.get(outboxEntryId(userId, c))!, remote: c.remote }));
+          await localStore.settleOutboxEntries(
+            entries,
+            new Map(applied.map(a => [outboxEntryId(userId, a), a])),
+            new Set(stale.map(s => outboxEntryId(userId, s.change)))
+          );
+          resultListeners.forEach(listener => listener({ applied, stale }));
+        } catch (e) {
+          // The entries stay queued untouched; the whole batch is retried later.
+          console.error("Outbox batch failed:", e);
+          failed = true;
+        }
+      }
+    } finally {
+      flushing = false;
+    }
+    await publish(failed ? 'error' : undefined);
+    if (failed) syncQueue.scheduleFlush(RETRY_DELAY_MS);
+    // Entries enqueued while this pass was running are picked up by a follow-up pass.
+    else if (snapshot.pending > 0) syncQueue.scheduleFlush();
+  },
+
+  /** Entities (as `entity:key`) that still have edits waiting in the outbox. */
+  pendingKeys: async (userId: string): Promise<Set<string>> => {
+    const entries = await localStore.listOutbox(userId);
+    return new Set(entries.map(e => pendingKey(e.change.entity, e.change.key)));
+  },
+
+  getSnapshot: (): SyncSnapshot => snapshot,
+
+  /** Reports accepted revisions and stale writes after each batch so the UI can merge them. */
+  onResult: (listener: ResultListener): (() => void) => {
+    resultListeners.add(listener);
+    return () => { resultListeners.delete(listener); };
+  },
+
+  subscribe: (listener: SyncListener): (() => void) => {
+    listeners.add(listener);
+    listener(snapshot);
+    publish(flushing ? 'syncing' : undefined).catch(() => {});
+    return () => { listeners.delete(listener); };
+  }
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => syncQueue.flush());
+  window.addEventListener('offline', () => { publish('offline').catch(() => {}); });
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TaskStatus } from '../types';
+import { toDate, readImportFile, guessMapping, buildImportedTasks } from './taskImportService';
+
+const trelloBoard = JSON.stringify({
+  lists: [{ id: 'l1', name: 'To Do' }, { id: 'l2', name: 'Doing' }, { id: 'l3', name: 'Done' }],
+  labels: [{ id: 'b1', name: 'Bug Fix' }, { id: 'b2', name: 'Frontend' }],
+  cards: [
+    { name: 'Fix login', idList: 'l1', idLabels: ['b1', 'b2'] },
+    { name: 'Build settings page', idList: 'l2', idLabels: ['b2'] },
+    { name: 'Update docs', idList: 'l3', idLabels: [] },
+    { name: 'Ship release', idList: 'l1', idLabels: [], dueComplete: true },
+    { name: 'Archived', idList: 'l1', closed: true }
+  ]
+});
+
+describe('toDate', () => {
+  const originalTz = process.env.TZ;
+  // East of UTC, where reading a local midnight back in UTC lands on the previous day.
+  beforeAll(() => { process.env.TZ = 'Asia/Tokyo'; });
+  afterAll(() => { process.env.TZ = originalTz; });
+
+  it('keeps ISO dates as they are', () => {
+    expect(toDate('2025-03-15')).toBe('2025-03-15');
+  });
+
+  it('reads Jira dates', () => {
+    expect(toDate('12/Oct/26 5:00 PM')).toBe('2026-10-12');
+    expect(toDate('3/Jan/2027')).toBe('2027-01-03');
+  });
+
+  it('reads other formats on the local calendar', () => {
+    expect(toDate('03/15/2025')).toBe('2025-03-15');
+    expect(toDate('March 15, 2025')).toBe('2025-03-15');
+    expect(toDate('2025-03-15T23:30:00.000Z')).toBe('2025-03-16');
+  });
+
+  it('ignores empty and unreadable values', () => {
+    expect(toDate('  ')).toBeUndefined();
+    expect(toDate('next sprint')).toBeUndefined();
+  });
+});
+
+describe('Trello import', () => {
+  const table = readImportFile('board.json', trelloBoard);
+
+  it('maps labels to the category and the list to the status', () => {
+    expect(guessMapping(table)).toMatchObject({ title: 'Name', category: 'Labels', status: 'List' });
+  });
+
+  it('takes the status from the list, unless the card is marked complete', () => {
+    const { tasks, newCategories } = buildImportedTasks(table, guessMapping(table), { logDate: '2026-10-19', fallbackCategory: 'General', categories: ['General'] });
+    expect(tasks.map(t => [t.title, t.status, t.category])).toEqual([
+      ['Fix login', TaskStatus.TODO, 'Bug Fix'],
+      ['Build settings page', TaskStatus.IN_PROGRESS, 'Frontend'],
+      ['Update docs', TaskStatus.DONE, 'General'],
+      ['Ship release', TaskStatus.DONE, 'General']
+    ]);
+    expect(newCategories).toEqual(['Bug Fix', 'Frontend']);
+  });
+});
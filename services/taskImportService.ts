@@ -0,0 +1,231 @@
+import { Task, TaskStatus, TaskPriority } from '../types';
+
+export type ImportSource = 'csv' | 'jira-csv' | 'jira-xml' | 'trello';
+
+export type ImportField = 'title' | 'description' | 'priority' | 'category' | 'dueDate' | 'status';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportTable {
+  source: ImportSource;
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export const IMPORT_FIELDS: { id: ImportField; label: string }[] = [
+  { id: 'title', label: 'Title' },
+  { id: 'description', label: 'Description' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'category', label: 'Category' },
+  { id: 'dueDate', label: 'Due Date' },
+  { id: 'status', label: 'Status' }
+];
+
+// Header names each tool uses for a field, most specific first.
+const COLUMN_SYNONYMS: Record<ImportField, string[]> = {
+  title: ['title', 'summary', 'name', 'task', 'card name'],
+  description: ['description', 'desc', 'details', 'notes'],
+  priority: ['priority', 'importance', 'severity'],
+  category: ['category', 'issue type', 'type', 'component/s', 'component', 'labels'],
+  dueDate: ['due date', 'due', 'deadline', 'duedate'],
+  status: ['status', 'state', 'list']
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** RFC 4180 parsing: quoted cells may contain commas, doubled quotes and line breaks. */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += ch;
+  }
+  if (cell || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+// Jira repeats headers such as "Labels" once per value; later copies get a numeric suffix.
+const uniqueHeaders = (headers: string[]) => {
+  const seen: Record<string, number> = {};
+  return headers.map(h => {
+    const name = h.trim() || 'Column';
+    seen[name] = (seen[name] || 0) + 1;
+    return seen[name] === 1 ? name : `${name} (${seen[name]})`;
+  });
+};
+
+const stripHtml = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').trim();
+};
+
+const tableFromCsv = (text: string): ImportTable => {
+  const [header = [], ...body] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = uniqueHeaders(header);
+  const rows = body.map(cells => Object.fromEntries(columns.map((c, i) => [c, (cells[i] || '').trim()])));
+  const isJira = columns.includes('Issue key') || (columns.includes('Summary') && columns.includes('Issue Type'));
+  return { source: isJira ? 'jira-csv' : 'csv', columns, rows };
+};
+
+const tableFromJiraXml = (text: string): ImportTable => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('The XML file could not be read.');
+  const read = (item: Element, tag: string) => item.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+  const rows = Array.from(doc.getElementsByTagName('item')).map(item => ({
+    'Key': read(item, 'key'),
+    'Summary': read(item, 'summary') || read(item, 'title'),
+    'Description': stripHtml(read(item, 'description')),
+    'Priority': read(item, 'priority'),
+    'Status': read(item, 'status'),
+    'Due': read(item, 'due'),
+    'Type': read(item, 'type'),
+    'Component': read(item, 'component')
+  }));
+  if (rows.length === 0) throw new Error('No Jira issues were found in the XML file.');
+  return { source: 'jira-xml', columns: ['Key', 'Summary', 'Description', 'Priority', 'Status', 'Due', 'Type', 'Component'], rows };
+};
+
+const tableFromTrello = (text: string): ImportTable => {
+  let board: any;
+  try {
+    board = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The JSON file could not be read.');
+  }
+  if (!Array.isArray(board?.cards)) throw new Error('The JSON file is not a Trello board export.');
+  const lists: Record<string, string> = Object.fromEntries((board.lists || []).map((l: any) => [l.id, l.name]));
+  const labels: Record<string, string> = Object.fromEntries((board.labels || []).map((l: any) => [l.id, l.name || l.color]));
+  const rows = board.cards
+    .filter((c: any) => !c.closed)
+    .map((c: any) => ({
+      'Name': c.name || '',
+      'Description': c.desc || '',
+      'List': lists[c.idList] || '',
+      'Labels': (c.idLabels || []).map((id: string) => labels[id]).filter(Boolean).join(', '),
+      'Due': c.due || '',
+      'Complete': c.dueComplete ? 'Done' : ''
+    }));
+  return { source: 'trello', columns: ['Name', 'Description', 'List', 'Labels', 'Due', 'Complete'], rows };
+};
+
+/** Reads a file into rows keyed by column name; the format is picked from the file name and content. */
+export const readImportFile = (name: string, text: string): ImportTable => {
+  const lower = name.toLowerCase();
+  const trimmed = text.trimStart();
+  if (lower.endsWith('.json') || trimmed.startsWith('{')) return tableFromTrello(text);
+  if (lower.endsWith('.xml') || trimmed.startsWith('<')) return tableFromJiraXml(text);
+  const table = tableFromCsv(text);
+  if (table.rows.length === 0) throw new Error('The file has a header row but no tasks.');
+  return table;
+};
+
+export const guessMapping = (table: ImportTable): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  IMPORT_FIELDS.forEach(({ id }) => {
+    const column = COLUMN_SYNONYMS[id]
+      .map(s => table.columns.find(c => c.toLowerCase() === s && !used.has(c)))
+      .find(Boolean);
+    if (column) {
+      mapping[id] = column;
+      used.add(column);
+    }
+  });
+  return mapping;
+};
+
+export const toPriority = (value: string): TaskPriority => {
+  if (/highest|high|critical|blocker|urgent|\bp[01]\b/i.test(value)) return TaskPriority.HIGH;
+  if (/lowest|low|trivial|minor|\bp[34]\b/i.test(value)) return TaskPriority.LOW;
+  return TaskPriority.MEDIUM;
+};
+
+export const toStatus = (value: string): TaskStatus => {
+  if (/done|closed|resolved|complete|finished/i.test(value)) return TaskStatus.DONE;
+  if (/progress|review|doing|active|started/i.test(value)) return TaskStatus.IN_PROGRESS;
+  return TaskStatus.TODO;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Accepts ISO dates and timestamps, Jira's "12/Oct/26 5:00 PM" and anything `Date.parse` reads. Timestamps
+ * are read on the local calendar, so a Trello due time of 23:00Z lands on the day the user sees it.
+ */
+export const toDate = (value: string): string | undefined => {
+  const text = value.trim();
+  if (!text) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const jira = text.match(/^(\d{1,2})\/([A-Za-z]{3})\/(\d{2,4})/);
+  if (jira) {
+    const month = MONTHS.indexOf(jira[2].toLowerCase());
+    const year = jira[3].length === 2 ? `20${jira[3]}` : jira[3];
+    if (month >= 0) return `${year}-${pad(month + 1)}-${pad(parseInt(jira[1], 10))}`;
+  }
+  const parsed = new Date(Date.parse(text));
+  return isNaN(parsed.getTime()) ? undefined : `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+};
+
+const newId = () => typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : Date.now().toString(36) + Math.random().toString(36).substring(2);
+
+/**
+ * Turns mapped rows into tasks planned for `logDate`. Rows without a title are skipped; category values
+ * that are not in the workspace yet are returned so they can be created alongside the tasks.
+ */
+export const buildImportedTasks = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  options: { logDate: string; fallbackCategory: string; categories: string[] }
+): { tasks: Task[]; newCategories: string[]; skipped: number } => {
+  const cell = (row: Record<string, string>, field: ImportField) => mapping[field] ? (row[mapping[field]!] || '').trim() : '';
+  const known = new Set(options.categories.map(c => c.toLowerCase()));
+  const newCategories: string[] = [];
+  const now = Date.now();
+  let skipped = 0;
+
+  const tasks = table.rows.flatMap((row, i): Task[] => {
+    const title = cell(row, 'title');
+    if (!title) {
+      skipped++;
+      return [];
+    }
+    // Multi-valued cells such as Trello labels use their first value.
+    const rawCategory = cell(row, 'category').split(',')[0].trim();
+    const category = rawCategory
+      ? options.categories.find(c => c.toLowerCase() === rawCategory.toLowerCase()) || newCategories.find(c => c.toLowerCase() === rawCategory.toLowerCase()) || rawCategory
+      : options.fallbackCategory;
+    if (!known.has(category.toLowerCase()) && !newCategories.includes(category)) newCategories.push(category);
+
+    // A Trello card whose due date is ticked off is done, whichever list it sits in.
+    const status = table.source === 'trello' && row['Complete'] ? TaskStatus.DONE : toStatus(cell(row, 'status'));
+    return [{
+      id: newId(),
+      title,
+      description: cell(row, 'description'),
+      status,
+      priority: toPriority(cell(row, 'priority')),
+      category,
+      dueDate: toDate(cell(row, 'dueDate')),
+      logDate: options.logDate,
+      createdAt: now + i,
+      completedAt: status === TaskStatus.DONE ? now : undefined
+    }];
+  });
+
+  return { tasks, newCategories, skipped };
+};
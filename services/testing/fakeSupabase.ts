@@ -0,0 +1,79 @@
+type Row = Record<string, any>;
+
+const RECORD_TABLES: Record<string, string> = { task: 'tasks', point: 'important_points', log: 'daily_logs', view: 'saved_views' };
+const NAME_TABLES: Record<string, string> = { team: 'team_members', category: 'task_categories', module: 'knowledge_modules' };
+
+const OFFLINE_ERROR = { message: 'TypeError: Failed to fetch', details: '', hint: '', code: '' };
+
+const cloneTables = (tables: Map<string, Map<string, Row>>) =>
+  new Map([...tables].map(([name, rows]) => [name, new Map([...rows].map(([key, row]) => [key, { ...row }]))]));
+
+/**
+ * In-memory stand-in for the Supabase client, for tests. `apply_workspace_changes` follows the SQL in
+ * schemaRequirements: revision-checked upserts, stale writes returned as conflicts, and the whole batch
+ * committed or discarded together. Set `offline` to make every call fail the way a dropped connection does.
+ */
+export const fakeSupabase = {
+  userId: 'user-1',
+  offline: false,
+  tables: new Map<string, Map<string, Row>>(),
+  rpcCalls: [] as { fn: string; args: any }[],
+
+  reset: () => {
+    fakeSupabase.offline = false;
+    fakeSupabase.tables = new Map();
+    fakeSupabase.rpcCalls = [];
+  },
+
+  table: (name: string): Map<string, Row> => {
+    if (!fakeSupabase.tables.has(name)) fakeSupabase.tables.set(name, new Map());
+    return fakeSupabase.tables.get(name)!;
+  },
+
+  /** Puts a row straight into a table, as another device's earlier write would have. */
+  seed: (name: string, row: Row) => {
+    fakeSupabase.table(name).set(String(row.id ?? row.name), { user_id: fakeSupabase.userId, ...row });
+  },
+
+  rows: (name: string): Row[] => [...fakeSupabase.table(name).values()],
+
+  rpc: async (fn: string, args: any): Promise<{ data: any; error: any }> => {
+    fakeSupabase.rpcCalls.push({ fn, args });
+    if (fakeSupabase.offline) return { data: null, error: OFFLINE_ERROR };
+    if (fn !== 'apply_workspace_changes') return { data: null, error: { message: `Unknown function ${fn}` } };
+
+    const tables = cloneTables(fakeSupabase.tables);
+    const table = (name: string) => {
+      if (!tables.has(name)) tables.set(name, new Map());
+      return tables.get(name)!;
+    };
+    const applied: Row[] = [];
+    const conflicts: Row[] = [];
+
+    for (const c of args.changes) {
+      if (RECORD_TABLES[c.entity]) {
+        const rows = table(RECORD_TABLES[c.entity]);
+        const current = rows.get(c.key);
+        if (c.action === 'delete') {
+          rows.delete(c.key);
+        } else if (current && (current.revision ?? 0) !== (c.data.revision ?? 0)) {
+          conflicts.push({ entity: c.entity, key: c.key, remote: { ...current } });
+        } else {
+          const revision = (c.data.revision ?? 0) + 1;
+          const updatedAt = new Date().toISOString();
+          rows.set(c.key, { ...c.data, user_id: fakeSupabase.userId, revision, updated_at: updatedAt });
+          applied.push({ entity: c.entity, key: c.key, revision, updated_at: updatedAt });
+        }
+      } else if (NAME_TABLES[c.entity]) {
+        const rows = table(NAME_TABLES[c.entity]);
+        if (c.action === 'upsert') rows.set(c.key, { user_id: fakeSupabase.userId, name: c.key });
+        else rows.delete(c.key);
+      } else {
+        return { data: null, error: { message: `Unknown entity ${c.entity}` } };
+      }
+    }
+
+    fakeSupabase.tables = tables;
+    return { data: { applied, conflicts }, error: null };
+  }
+};
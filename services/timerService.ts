@@ -0,0 +1,52 @@
+import { ActiveTimer, Task } from '../types';
+
+const HOUR_MS = 3600000;
+
+const storageKey = (userId: string) => `worksync-timer:${userId}`;
+
+/**
+ * Time spent between `start` and `end` is added to the task as a segment and on top of its duration,
+ * so hours typed in by hand are kept.
+ */
+export const closeSegment = (task: Task, start: number, end: number): Task => ({
+  ...task,
+  timeSegments: [...(task.timeSegments || []), { start, end }],
+  duration: Math.round(((task.duration || 0) + (end - start) / HOUR_MS) * 100) / 100
+});
+
+export const runningHours = (timer: ActiveTimer | null, now: number) =>
+  timer?.runningSince ? Math.max(0, now - timer.runningSince) / HOUR_MS : 0;
+
+export const formatElapsed = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${Math.floor(total / 3600)}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+};
+
+/**
+ * The running timer lives in localStorage rather than on the task: it survives reloads, and the
+ * `storage` event tells every other open tab when it starts, pauses or stops.
+ */
+export const timerService = {
+  get: (userId: string): ActiveTimer | null => {
+    try {
+      const raw = localStorage.getItem(storageKey(userId));
+      return raw ? JSON.parse(raw) as ActiveTimer : null;
+    } catch (e) {
+      return null;
+    }
+  },
+
+  set: (userId: string, timer: ActiveTimer | null) => {
+    if (timer) localStorage.setItem(storageKey(userId), JSON.stringify(timer));
+    else localStorage.removeItem(storageKey(userId));
+  },
+
+  subscribe: (userId: string, listener: (timer: ActiveTimer | null) => void) => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === storageKey(userId)) listener(timerService.get(userId));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+};
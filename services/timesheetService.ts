@@ -0,0 +1,62 @@
+import * as XLSX from 'xlsx';
+import { Task, TaskStatus } from '../types';
+import { addDays, weekdayOf } from './recurrenceService';
+import { downloadFile } from './downloadService';
+
+export interface Timesheet {
+  days: string[];
+  rows: { category: string; hours: number[]; total: number }[];
+  dayTotals: number[];
+  total: number;
+}
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+/** Monday of the week containing `date`. */
+export const weekStart = (date: string) => addDays(date, -((weekdayOf(date) + 6) % 7));
+
+/**
+ * Hours of completed work per category and day for the seven days from `start`. Completed tasks are
+ * logged on the day they were finished, so `logDate` places them in the grid.
+ */
+export const buildTimesheet = (tasks: Task[], start: string): Timesheet => {
+  const days = Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  const byCategory: Record<string, number[]> = {};
+  tasks.forEach(t => {
+    const index = days.indexOf(t.logDate);
+    if (t.status !== TaskStatus.DONE || index === -1 || !t.duration) return;
+    const hours = byCategory[t.category] || (byCategory[t.category] = days.map(() => 0));
+    hours[index] += t.duration;
+  });
+
+  const rows = Object.entries(byCategory)
+    .map(([category, hours]) => ({ category, hours: hours.map(round), total: round(hours.reduce((a, h) => a + h, 0)) }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+  const dayTotals = days.map((_, i) => round(rows.reduce((a, r) => a + r.hours[i], 0)));
+  return { days, rows, dayTotals, total: round(dayTotals.reduce((a, h) => a + h, 0)) };
+};
+
+// One header row, one row per category and a totals row; dates are ISO so HR imports read them as dates.
+const toGrid = (sheet: Timesheet): (string | number)[][] => [
+  ['Category', ...sheet.days, 'Total'],
+  ...sheet.rows.map(r => [r.category, ...r.hours, r.total]),
+  ['Total', ...sheet.dayTotals, sheet.total]
+];
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportTimesheetCsv = (sheet: Timesheet) => {
+  const csv = toGrid(sheet).map(row => row.map(csvCell).join(',')).join('\r\n');
+  downloadFile(`timesheet-${sheet.days[0]}.csv`, csv, 'text/csv;charset=utf-8');
+};
+
+export const exportTimesheetXlsx = (sheet: Timesheet) => {
+  const workbook = XLSX.utils.book_new();
+  const worksheet = XLSX.utils.aoa_to_sheet(toGrid(sheet));
+  worksheet['!cols'] = [{ wch: 24 }, ...sheet.days.map(() => ({ wch: 12 })), { wch: 10 }];
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Timesheet');
+  XLSX.writeFile(workbook, `timesheet-${sheet.days[0]}.xlsx`);
+};
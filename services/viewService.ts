@@ -0,0 +1,161 @@
+import { Task, TaskStatus, TaskPriority, SavedView, ViewCondition, ViewField, ViewOperator, ViewSort } from '../types';
+import { addDays } from './recurrenceService';
+
+export type ViewFieldType = 'text' | 'choice' | 'date' | 'number';
+
+export const VIEW_FIELDS: { id: ViewField; label: string; type: ViewFieldType }[] = [
+  { id: 'title', label: 'Title', type: 'text' },
+  { id: 'notes', label: 'Notes', type: 'text' },
+  { id: 'category', label: 'Category', type: 'choice' },
+  { id: 'priority', label: 'Priority', type: 'choice' },
+  { id: 'status', label: 'Status', type: 'choice' },
+  { id: 'blocker', label: 'Blocked By', type: 'choice' },
+  { id: 'logDate', label: 'Planned Date', type: 'date' },
+  { id: 'dueDate', label: 'Due Date', type: 'date' },
+  { id: 'duration', label: 'Hours', type: 'number' },
+  { id: 'postponements', label: 'Times Postponed', type: 'number' }
+];
+
+export const OPERATORS: Record<ViewFieldType, { id: ViewOperator; label: string }[]> = {
+  text: [
+    { id: 'contains', label: 'contains' },
+    { id: 'notContains', label: 'does not contain' },
+    { id: 'isSet', label: 'is filled in' },
+    { id: 'isEmpty', label: 'is empty' }
+  ],
+  choice: [
+    { id: 'is', label: 'is' },
+    { id: 'isNot', label: 'is not' },
+    { id: 'isSet', label: 'is set' },
+    { id: 'isEmpty', label: 'is not set' }
+  ],
+  date: [
+    { id: 'on', label: 'is on' },
+    { id: 'before', label: 'is before' },
+    { id: 'after', label: 'is after' },
+    { id: 'withinNext', label: 'is in the next (days)' },
+    { id: 'withinLast', label: 'was in the last (days)' },
+    { id: 'isSet', label: 'is set' },
+    { id: 'isEmpty', label: 'is not set' }
+  ],
+  number: [
+    { id: 'greaterThan', label: 'is more than' },
+    { id: 'lessThan', label: 'is less than' },
+    { id: 'is', label: 'equals' },
+    { id: 'isSet', label: 'is set' },
+    { id: 'isEmpty', label: 'is not set' }
+  ]
+};
+
+// Operators that compare against nothing, so the builder hides the value input for them.
+export const VALUELESS: ViewOperator[] = ['isSet', 'isEmpty'];
+
+export const fieldType = (field: ViewField): ViewFieldType => VIEW_FIELDS.find(f => f.id === field)!.type;
+
+/** Starting points offered by the builder; they are copied, never referenced. */
+export const VIEW_TEMPLATES: { name: string; conditions: ViewCondition[]; sort: ViewSort[] }[] = [
+  {
+    name: 'High priority blocked by others',
+    conditions: [
+      { field: 'priority', operator: 'is', value: TaskPriority.HIGH },
+      { field: 'blocker', operator: 'isSet' },
+      { field: 'blocker', operator: 'isNot', value: 'Self' },
+      { field: 'status', operator: 'isNot', value: TaskStatus.DONE }
+    ],
+    sort: [{ field: 'dueDate', direction: 'asc' }, { field: 'logDate', direction: 'asc' }]
+  },
+  {
+    name: 'Bug Fix this sprint',
+    conditions: [
+      { field: 'category', operator: 'is', value: 'Bug Fix' },
+      { field: 'logDate', operator: 'withinLast', value: '14' }
+    ],
+    sort: [{ field: 'status', direction: 'asc' }, { field: 'priority', direction: 'desc' }]
+  },
+  {
+    name: 'Postponed more than twice',
+    conditions: [
+      { field: 'postponements', operator: 'greaterThan', value: '2' },
+      { field: 'status', operator: 'isNot', value: TaskStatus.DONE }
+    ],
+    sort: [{ field: 'postponements', direction: 'desc' }]
+  }
+];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { [TaskPriority.LOW]: 0, [TaskPriority.MEDIUM]: 1, [TaskPriority.HIGH]: 2 };
+const STATUS_RANK: Record<TaskStatus, number> = { [TaskStatus.TODO]: 0, [TaskStatus.IN_PROGRESS]: 1, [TaskStatus.DONE]: 2 };
+
+// The value conditions test: unset fields read as undefined, and postponements as how many there were.
+const rawValue = (task: Task, field: ViewField): string | number | undefined => {
+  if (field === 'postponements') return task.postponements?.length || undefined;
+  const value = task[field];
+  return value === '' || value === null ? undefined : value;
+};
+
+// Sorting compares ranks for priority and status rather than their names.
+const sortValue = (task: Task, field: ViewField): string | number | undefined => {
+  if (field === 'priority') return PRIORITY_RANK[task.priority];
+  if (field === 'status') return STATUS_RANK[task.status];
+  if (field === 'postponements') return task.postponements?.length || 0;
+  return rawValue(task, field);
+};
+
+const resolveDate = (value: string | undefined, today: string) => value === 'today' || !value ? today : value;
+
+const matches = (task: Task, condition: ViewCondition, today: string): boolean => {
+  const { field, operator, value = '' } = condition;
+  const raw = rawValue(task, field);
+  const isSet = raw !== undefined;
+  if (operator === 'isSet') return isSet;
+  if (operator === 'isEmpty') return !isSet;
+
+  switch (fieldType(field)) {
+    case 'text': {
+      const contains = String(raw || '').toLowerCase().includes(value.toLowerCase());
+      return operator === 'notContains' ? !contains : contains;
+    }
+    case 'choice':
+      return operator === 'isNot' ? raw !== value : raw === value;
+    case 'date': {
+      if (!isSet) return false;
+      const date = String(raw);
+      if (operator === 'on') return date === resolveDate(value, today);
+      if (operator === 'before') return date < resolveDate(value, today);
+      if (operator === 'after') return date > resolveDate(value, today);
+      const days = parseInt(value, 10) || 0;
+      if (operator === 'withinNext') return date >= today && date <= addDays(today, days);
+      return date <= today && date >= addDays(today, -days);
+    }
+    case 'number': {
+      const number = Number(raw || 0);
+      const target = parseFloat(value);
+      if (isNaN(target)) return true;
+      if (operator === 'greaterThan') return number > target;
+      if (operator === 'lessThan') return number < target;
+      return number === target;
+    }
+  }
+};
+
+const compare = (a: Task, b: Task, sort: ViewSort): number => {
+  const left = sortValue(a, sort.field);
+  const right = sortValue(b, sort.field);
+  // Tasks without a value go last whichever way the list is sorted.
+  if (left === undefined || right === undefined) return left === right ? 0 : left === undefined ? 1 : -1;
+  const order = typeof left === 'number' && typeof right === 'number' ? left - right : String(left).localeCompare(String(right));
+  return sort.direction === 'asc' ? order : -order;
+};
+
+/** The tasks a view shows, in its sort order; ties fall back to the newest first. */
+export const applyView = (tasks: Task[], view: Pick<SavedView, 'conditions' | 'sort'>, today: string): Task[] =>
+  tasks
+    .filter(t => !t.recurrence && view.conditions.every(c => matches(t, c, today)))
+    .sort((a, b) => {
+      for (const sort of view.sort) {
+        const order = compare(a, b, sort);
+        if (order !== 0) return order;
+      }
+      return b.createdAt - a.createdAt;
+    });
+
+export const viewTabId = (view: SavedView) => `view:${view.id}`;
@@ -0,0 +1,19 @@
+import { Workspace } from '../types';
+
+export const DEFAULT_TEAM = ['Self'];
+export const DEFAULT_CATEGORIES = ['Meeting', 'Development', 'Bug Fix', 'Testing', 'Documentation', 'Planning', 'Admin'];
+export const DEFAULT_MODULES = ['General', 'Technical', 'Process', 'Credentials'];
+
+/**
+ * Fills empty lists with the starter set. Kept out of `fetchWorkspace` so the sync layer can tell
+ * "never saved" apart from "saved", and the starter lists get persisted on first use.
+ */
+export const withWorkspaceDefaults = (ws?: Partial<Workspace>): Workspace => ({
+  tasks: ws?.tasks || [],
+  points: ws?.points || [],
+  logs: ws?.logs || [],
+  views: ws?.views || [],
+  team: ws?.team && ws.team.length > 0 ? ws.team : DEFAULT_TEAM,
+  categories: ws?.categories && ws.categories.length > 0 ? ws.categories : DEFAULT_CATEGORIES,
+  modules: ws?.modules && ws.modules.length > 0 ? ws.modules : DEFAULT_MODULES
+});
@@ -11,6 +11,73 @@ export enum TaskPriority {
   HIGH = 'HIGH'
 }
 
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+/**
+ * Repeat rule on a series task. The series starts on the task's `logDate`; `weekdays` and
+ * `monthlyWeekday` use 0 = Sunday, and `monthlyWeek` -1 means the last such weekday of the month.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  weekdays?: number[];
+  monthlyWeek?: number;
+  monthlyWeekday?: number;
+  endDate?: string;
+  count?: number;
+}
+
+export interface Postponement {
+  fromDate: string;
+  toDate: string;
+  reason: string;
+  at: number;
+  automatic?: boolean; // Recorded by the start-of-day carry-over rather than a manual move
+}
+
+export interface TimeSegment {
+  start: number;
+  end: number;
+}
+
+// The one timer a user can have; `runningSince` is null while it is paused.
+export interface ActiveTimer {
+  taskId: string;
+  runningSince: number | null;
+}
+
+export type ReportTemplate = 'daily' | 'standup' | 'weekly' | 'self-review';
+
+export type SummarySectionId = 'overview' | 'accomplishments' | 'blockers' | 'deadlines' | 'nextSteps';
+
+export interface SummarySection {
+  id: SummarySectionId;
+  title: string;
+  content: string;
+}
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface WorkCalendar {
+  workdays: number[]; // 0 = Sunday
+  holidays: string[];
+}
+
+export type LlmProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  temperature: number;
+  endpoint: string; // Base URL of the OpenAI-compatible server, e.g. http://localhost:11434/v1
+  apiKey: string; // Only sent to the OpenAI-compatible endpoint; Gemini reads its key from the build environment
+}
+
+export type SeriesScope = 'this' | 'following' | 'all';
+
 export interface User {
   id: string;
   name: string;
@@ -34,7 +101,18 @@ export interface Task {
   logDate: string;  
   blocker?: string; 
   postponedReason?: string; 
+  postponements?: Postponement[];
   duration?: number;
+  timeSegments?: TimeSegment[];
+  recurrence?: RecurrenceRule; // Set on a series template; occurrences are generated from it
+  skippedDates?: string[]; // Series template only: occurrence dates removed individually
+  seriesId?: string;
+  occurrenceDate?: string;
+  detached?: boolean; // Occurrence edited on its own; series-wide edits leave it alone
+  sortOrder?: number; // Manual position within its board column; unset cards follow creation order
+  icsUid?: string; // UID of the calendar event this task was imported from; re-imports update it in place
+  revision?: number; // Server revision this copy was based on; bumped by the server on every accepted write
+  updatedAt?: number;
 }
 
 export interface ImportantPoint {
@@ -43,10 +121,129 @@ export interface ImportantPoint {
   note?: string; // New: Detailed hint/note for the knowledge point
   module: string; 
   createdAt: number;
+  revision?: number;
+  updatedAt?: number;
+}
+
+// One generated report. Edits made in the AI Review tab are saved into the version being edited.
+export interface SummaryVersion {
+  id: string;
+  createdAt: number;
+  template: ReportTemplate;
+  range?: DateRange; // Range reports are filed under the last day of their range
+  generatedBy?: string; // Provider and model, e.g. "Gemini · gemini-3-flash-preview"
+  sections: SummarySection[];
 }
 
 export interface DailyLog {
+  id: string; // Same as `date`: one log per day
   date: string; 
+  summary?: string; // Markdown of the latest version
+  summaries?: SummaryVersion[];
+  revision?: number;
+  updatedAt?: number;
+}
+
+export type ViewField = 'title' | 'notes' | 'category' | 'priority' | 'status' | 'blocker' | 'logDate' | 'dueDate' | 'duration' | 'postponements';
+
+export type ViewOperator =
+  | 'is' | 'isNot' | 'contains' | 'notContains'
+  | 'on' | 'before' | 'after' | 'withinNext' | 'withinLast'
+  | 'greaterThan' | 'lessThan'
+  | 'isSet' | 'isEmpty';
+
+export interface ViewCondition {
+  field: ViewField;
+  operator: ViewOperator;
+  value?: string; // Dates may be "today"; withinNext / withinLast take a number of days
+}
+
+export interface ViewSort {
+  field: ViewField;
+  direction: 'asc' | 'desc';
+}
+
+// A named task list shown as its own tab. Every condition must hold.
+export interface SavedView {
+  id: string;
+  name: string;
+  conditions: ViewCondition[];
+  sort: ViewSort[];
+  createdAt: number;
+  revision?: number;
+  updatedAt?: number;
+}
+
+export interface Workspace {
   tasks: Task[];
-  summary?: string;
+  team: string[];
+  categories: string[];
+  points: ImportantPoint[];
+  modules: string[];
+  logs: DailyLog[];
+  views: SavedView[];
+}
+
+export type SyncEntity = 'task' | 'point' | 'log' | 'view' | 'team' | 'category' | 'module';
+
+// Entities synced as whole records with a revision, as opposed to the name lists.
+export type SyncRecord = Task | ImportantPoint | DailyLog | SavedView;
+
+/**
+ * A single pending change. Tasks, points, logs and views are keyed by id; list entries (team, categories, modules) by name.
+ */
+export interface EntityChange {
+  entity: SyncEntity;
+  key: string;
+  action: 'upsert' | 'delete';
+  data?: SyncRecord;
+  base?: SyncRecord; // Last server-acknowledged copy the edit started from, used for three-way merges
+}
+
+export interface AppliedChange {
+  entity: SyncEntity;
+  key: string;
+  revision: number;
+  updatedAt: number;
+}
+
+export interface StaleWrite {
+  change: EntityChange;
+  remote: SyncRecord;
+}
+
+export interface SyncResult {
+  applied: AppliedChange[];
+  stale: StaleWrite[];
+}
+
+export interface SyncConflict {
+  entity: 'task' | 'point' | 'view';
+  key: string;
+  local: Task | ImportantPoint | SavedView;
+  remote: Task | ImportantPoint | SavedView;
+  merged: Task | ImportantPoint | SavedView;
+  fields: string[];
+}
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  change: EntityChange;
+  createdAt: number;
+}
+
+export type RemoteEvent =
+  | { entity: 'task'; type: 'upsert'; record: Task }
+  | { entity: 'point'; type: 'upsert'; record: ImportantPoint }
+  | { entity: 'log'; type: 'upsert'; record: DailyLog }
+  | { entity: 'view'; type: 'upsert'; record: SavedView }
+  | { entity: SyncEntity; type: 'delete'; key: string }
+  | { entity: 'team' | 'category' | 'module'; type: 'upsert'; key: string };
+
+export type SyncState = 'idle' | 'syncing' | 'error' | 'offline';
+
+export interface SyncSnapshot {
+  pending: number;
+  state: SyncState;
 }